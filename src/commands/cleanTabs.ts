@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { TabCleanupService } from '../services/tabCleanupService';
+import { ConfigurationManager } from '../utils/configurationManager';
+import { Logger } from '../utils/logger';
+
+/**
+ * Command handler for closing the tabs selected by the configured close rules
+ */
+export class CleanTabsCommand {
+    private static readonly COMMAND_ID = 'cleanx.cleanTabs';
+
+    constructor(private readonly cleanupService: TabCleanupService) {}
+
+    /**
+     * Register the command with VS Code
+     */
+    public register(context: vscode.ExtensionContext): void {
+        const disposable = vscode.commands.registerCommand(
+            CleanTabsCommand.COMMAND_ID,
+            this.execute.bind(this)
+        );
+        
+        context.subscriptions.push(disposable);
+    }
+
+    /**
+     * Execute the command to close all tabs matched by `cleanx.cleanRules`
+     */
+    private async execute(): Promise<void> {
+        try {
+            const config = ConfigurationManager.getConfig();
+
+            const matches = await this.cleanupService.findTabsToClose(config.cleanRules);
+            let tabs = matches.map(match => match.tab);
+
+            if (config.confirmBeforeClosing && matches.length > 0) {
+                const picked = await this.cleanupService.pickTabsToClose(matches, 'Clean Tabs');
+                if (!picked || picked.length === 0) {
+                    return;
+                }
+                tabs = picked;
+            }
+
+            const closedCount = await this.cleanupService.closeTabs(tabs, 'Clean Tabs');
+
+            if (config.showNotifications) {
+                if (closedCount > 0) {
+                    vscode.window.showInformationMessage(`Closed ${closedCount} tab${closedCount === 1 ? '' : 's'}`);
+                } else {
+                    vscode.window.showInformationMessage('No tabs match the close rules');
+                }
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            Logger.error('Failed to clean tabs', error);
+            vscode.window.showErrorMessage(`Failed to clean tabs: ${errorMessage}`);
+        }
+    }
+}
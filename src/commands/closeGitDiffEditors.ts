@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { GitDiffEditorService } from '../services/gitDiffEditorService';
+import { TabCleanupService } from '../services/tabCleanupService';
 import { ConfigurationManager } from '../utils/configurationManager';
 import { Logger } from '../utils/logger';
 
@@ -9,7 +9,7 @@ import { Logger } from '../utils/logger';
 export class CloseGitDiffEditorsCommand {
     private static readonly COMMAND_ID = 'cleanx.closeGitDiffEditors';
 
-    constructor(private readonly gitDiffService: GitDiffEditorService) {}
+    constructor(private readonly cleanupService: TabCleanupService) {}
 
     /**
      * Register the command with VS Code
@@ -35,29 +35,19 @@ export class CloseGitDiffEditorsCommand {
         try {
             const config = ConfigurationManager.getConfig();
             
-            // Check if we should confirm before closing
-            if (config.confirmBeforeClosing) {
-                const gitDiffCount = await this.gitDiffService.getGitDiffEditorCount();
-                if (gitDiffCount === 0) {
-                    if (config.showNotifications) {
-                        vscode.window.showInformationMessage('No Git-related editors found to close');
-                    }
-                    return;
-                }
-
-                const result = await vscode.window.showWarningMessage(
-                    `Close ${gitDiffCount} Git-related editor${gitDiffCount === 1 ? '' : 's'}?`,
-                    { modal: true },
-                    'Yes',
-                    'No'
-                );
+            const matches = await this.cleanupService.findTabsToClose(ConfigurationManager.GIT_CLEAN_RULES);
+            let tabs = matches.map(match => match.tab);
 
-                if (result !== 'Yes') {
+            // Check if we should let the user review the editors before closing
+            if (config.confirmBeforeClosing && matches.length > 0) {
+                const picked = await this.cleanupService.pickTabsToClose(matches, 'Close Git Diff Editors');
+                if (!picked || picked.length === 0) {
                     return;
                 }
+                tabs = picked;
             }
 
-            const closedCount = await this.gitDiffService.closeAllGitDiffEditors();
+            const closedCount = await this.cleanupService.closeTabs(tabs, 'Close Git Editors');
             
             if (config.showNotifications) {
                 if (closedCount > 0) {
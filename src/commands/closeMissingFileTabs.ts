@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import { MissingFileTabService } from '../services/missingFileTabService';
+import { ConfigurationManager } from '../utils/configurationManager';
+import { Logger } from '../utils/logger';
+
+/**
+ * Command handler for closing tabs whose file was deleted or moved
+ */
+export class CloseMissingFileTabsCommand {
+    private static readonly COMMAND_ID = 'cleanx.closeMissingFileTabs';
+
+    constructor(private readonly missingFileTabService: MissingFileTabService) {}
+
+    /**
+     * Register the command with VS Code
+     */
+    public register(context: vscode.ExtensionContext): void {
+        const disposable = vscode.commands.registerCommand(
+            CloseMissingFileTabsCommand.COMMAND_ID,
+            this.execute.bind(this)
+        );
+
+        context.subscriptions.push(disposable);
+    }
+
+    /**
+     * Execute the command to close tabs of deleted files and reopen renamed ones
+     */
+    private async execute(): Promise<void> {
+        try {
+            const { closed, reopened } = await this.missingFileTabService.cleanUpMissingFileTabs(false);
+
+            if (ConfigurationManager.getConfig().showNotifications) {
+                if (closed > 0 || reopened > 0) {
+                    const reopenedMessage = reopened > 0 ? `, reopened ${reopened} at their new path` : '';
+                    vscode.window.showInformationMessage(`Closed ${closed} tab${closed === 1 ? '' : 's'} of deleted files${reopenedMessage}`);
+                } else {
+                    vscode.window.showInformationMessage('No tabs of deleted files found');
+                }
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            Logger.error('Failed to close tabs of deleted files', error);
+            vscode.window.showErrorMessage(`Failed to close tabs of deleted files: ${errorMessage}`);
+        }
+    }
+}
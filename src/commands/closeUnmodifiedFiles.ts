@@ -0,0 +1,63 @@
+import * as vscode from 'vscode';
+import { TabCleanupService } from '../services/tabCleanupService';
+import { ConfigurationManager } from '../utils/configurationManager';
+import { Logger } from '../utils/logger';
+
+/**
+ * Command handler for closing file tabs that have no changes relative to HEAD
+ */
+export class CloseUnmodifiedFilesCommand {
+    private static readonly COMMAND_ID = 'cleanx.closeUnmodifiedFiles';
+
+    constructor(private readonly cleanupService: TabCleanupService) {}
+
+    /**
+     * Register the command with VS Code
+     */
+    public register(context: vscode.ExtensionContext): void {
+        const disposable = vscode.commands.registerCommand(
+            CloseUnmodifiedFilesCommand.COMMAND_ID,
+            this.execute.bind(this)
+        );
+
+        context.subscriptions.push(disposable);
+    }
+
+    /**
+     * Execute the command to close every file tab without working tree or index changes
+     */
+    private async execute(): Promise<void> {
+        try {
+            const config = ConfigurationManager.getConfig();
+
+            const matches = await this.cleanupService.findUnmodifiedTabs(config.keepPinnedUnmodifiedFiles, config.keepDirtyUnmodifiedFiles);
+            if (!matches) {
+                vscode.window.showWarningMessage('Close Unmodified Files needs the built-in Git extension, which is disabled or not available');
+                return;
+            }
+            let tabs = matches.map(match => match.tab);
+
+            if (config.confirmBeforeClosing && matches.length > 0) {
+                const picked = await this.cleanupService.pickTabsToClose(matches, 'Close Unmodified Files');
+                if (!picked || picked.length === 0) {
+                    return;
+                }
+                tabs = picked;
+            }
+
+            const closedCount = await this.cleanupService.closeTabs(tabs, 'Close Unmodified Files');
+
+            if (config.showNotifications) {
+                if (closedCount > 0) {
+                    vscode.window.showInformationMessage(`Closed ${closedCount} unmodified file${closedCount === 1 ? '' : 's'}`);
+                } else {
+                    vscode.window.showInformationMessage('No unmodified files found to close');
+                }
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            Logger.error('Failed to close unmodified files', error);
+            vscode.window.showErrorMessage(`Failed to close unmodified files: ${errorMessage}`);
+        }
+    }
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import { TabWorkspaceService } from '../services/tabWorkspaceService';
+import { SharedWorkspaceService } from '../services/sharedWorkspaceService';
+import { Logger } from '../utils/logger';
+
+/**
+ * Command handler for exporting tab workspaces to a shared `.cleanx/workspaces.json` file
+ */
+export class ExportTabWorkspacesCommand {
+    private static readonly COMMAND_ID = 'cleanx.exportTabWorkspaces';
+
+    constructor(private readonly workspaceService: TabWorkspaceService) {}
+
+    /**
+     * Register the command with VS Code
+     */
+    public register(context: vscode.ExtensionContext): void {
+        const disposable = vscode.commands.registerCommand(
+            ExportTabWorkspacesCommand.COMMAND_ID,
+            this.execute.bind(this)
+        );
+        
+        context.subscriptions.push(disposable);
+    }
+
+    /**
+     * Execute the command to export workspaces
+     */
+    private async execute(): Promise<void> {
+        try {
+            const workspaces = this.workspaceService.getWorkspaces()
+                .filter(workspace => !TabWorkspaceService.isShared(workspace));
+
+            if (workspaces.length === 0) {
+                vscode.window.showInformationMessage('No personal workspaces to export.');
+                return;
+            }
+
+            const items = workspaces.map(workspace => ({
+                label: workspace.name,
+                description: `${TabWorkspaceService.getTabCount(workspace)} tabs • ${this.workspaceService.getScopeLabel(workspace.scope)}`,
+                picked: true,
+                workspace
+            }));
+
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: `Select the workspaces to share via ${SharedWorkspaceService.FILE_PATH}`,
+                title: 'Export Tab Workspaces',
+                canPickMany: true
+            });
+
+            if (!selected || selected.length === 0) {
+                return; // User cancelled
+            }
+
+            const folder = await this.pickFolder();
+            if (!folder) {
+                return;
+            }
+
+            const fileUri = await this.workspaceService.exportWorkspaces(selected.map(item => item.workspace), folder);
+
+            const action = await vscode.window.showInformationMessage(
+                `Exported ${selected.length} workspace${selected.length === 1 ? '' : 's'} to ${SharedWorkspaceService.FILE_PATH}`,
+                'Open File'
+            );
+            if (action === 'Open File') {
+                await vscode.window.showTextDocument(fileUri);
+            }
+
+            Logger.info(`User exported ${selected.length} workspaces`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            Logger.error('Failed to export tab workspaces', error);
+            vscode.window.showErrorMessage(`Failed to export workspaces: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Pick the workspace folder to write the shared file to
+     */
+    private async pickFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+
+        if (folders.length === 0) {
+            vscode.window.showWarningMessage('Open a folder to export tab workspaces.');
+            return undefined;
+        }
+
+        if (folders.length === 1) {
+            return folders[0];
+        }
+
+        return vscode.window.showWorkspaceFolderPick({
+            placeHolder: `Select the folder to write ${SharedWorkspaceService.FILE_PATH} to`
+        });
+    }
+}
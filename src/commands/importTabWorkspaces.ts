@@ -0,0 +1,83 @@
+import * as vscode from 'vscode';
+import { TabWorkspaceService } from '../services/tabWorkspaceService';
+import { SharedWorkspaceService } from '../services/sharedWorkspaceService';
+import { Logger } from '../utils/logger';
+
+/**
+ * Command handler for importing tab workspaces from a workspaces JSON file
+ */
+export class ImportTabWorkspacesCommand {
+    private static readonly COMMAND_ID = 'cleanx.importTabWorkspaces';
+
+    constructor(private readonly workspaceService: TabWorkspaceService) {}
+
+    /**
+     * Register the command with VS Code
+     */
+    public register(context: vscode.ExtensionContext): void {
+        const disposable = vscode.commands.registerCommand(
+            ImportTabWorkspacesCommand.COMMAND_ID,
+            this.execute.bind(this)
+        );
+        
+        context.subscriptions.push(disposable);
+    }
+
+    /**
+     * Execute the command to import workspaces
+     */
+    private async execute(): Promise<void> {
+        try {
+            const folder = vscode.workspace.workspaceFolders?.[0];
+            const fileUris = await vscode.window.showOpenDialog({
+                title: 'Import Tab Workspaces',
+                openLabel: 'Import',
+                canSelectMany: false,
+                defaultUri: folder ? vscode.Uri.joinPath(folder.uri, SharedWorkspaceService.FILE_PATH) : undefined,
+                filters: { 'JSON': ['json'] }
+            });
+
+            if (!fileUris || fileUris.length === 0) {
+                return; // User cancelled
+            }
+
+            const workspaces = await this.workspaceService.readWorkspacesFile(fileUris[0]);
+            if (workspaces.length === 0) {
+                vscode.window.showInformationMessage('The selected file contains no workspaces.');
+                return;
+            }
+
+            const defaultScope = this.workspaceService.getDefaultScope();
+            const items = workspaces.map(workspace => ({
+                label: workspace.name,
+                description: this.workspaceService.getWorkspace(workspace.name, defaultScope)
+                    ? `${TabWorkspaceService.getTabCount(workspace)} tabs • replaces existing`
+                    : `${TabWorkspaceService.getTabCount(workspace)} tabs`,
+                picked: true,
+                workspace
+            }));
+
+            const selected = await vscode.window.showQuickPick(items, {
+                placeHolder: `Select the workspaces to import into ${this.workspaceService.getScopeLabel(defaultScope)}`,
+                title: 'Import Tab Workspaces',
+                canPickMany: true
+            });
+
+            if (!selected || selected.length === 0) {
+                return;
+            }
+
+            await this.workspaceService.importWorkspaces(selected.map(item => item.workspace), defaultScope);
+
+            vscode.window.showInformationMessage(
+                `Imported ${selected.length} workspace${selected.length === 1 ? '' : 's'}`
+            );
+
+            Logger.info(`User imported ${selected.length} workspaces`);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            Logger.error('Failed to import tab workspaces', error);
+            vscode.window.showErrorMessage(`Failed to import workspaces: ${errorMessage}`);
+        }
+    }
+}
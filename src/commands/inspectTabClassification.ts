@@ -0,0 +1,113 @@
+import * as vscode from 'vscode';
+import { TabCloseVerdict } from '../types';
+import { TabCleanupService } from '../services/tabCleanupService';
+import { ConfigurationManager } from '../utils/configurationManager';
+import { Logger } from '../utils/logger';
+
+/**
+ * Command handler for explaining whether Close Git Diff Editors and Clean Tabs would close a tab, and why
+ */
+export class InspectTabClassificationCommand {
+    private static readonly COMMAND_ID = 'cleanx.inspectTabClassification';
+
+    constructor(private readonly cleanupService: TabCleanupService) {}
+
+    /**
+     * Register the command with VS Code
+     */
+    public register(context: vscode.ExtensionContext): void {
+        const disposable = vscode.commands.registerCommand(
+            InspectTabClassificationCommand.COMMAND_ID,
+            this.execute.bind(this)
+        );
+
+        context.subscriptions.push(disposable);
+    }
+
+    /**
+     * Execute the command to show the verdicts for the active tab or all tabs
+     */
+    private async execute(): Promise<void> {
+        try {
+            const tabs = await this.pickTabs();
+            if (!tabs) {
+                return;
+            }
+
+            const config = ConfigurationManager.getConfig();
+            const gitVerdicts = await this.cleanupService.classifyTabs(tabs, ConfigurationManager.GIT_CLEAN_RULES);
+            const cleanVerdicts = await this.cleanupService.classifyTabs(tabs, config.cleanRules);
+
+            Logger.info(`Tab classification of ${tabs.length} tab${tabs.length === 1 ? '' : 's'}:`);
+            tabs.forEach((tab, index) => {
+                Logger.info(`${tab.label} (group ${tab.group.viewColumn})`, {
+                    closeGitDiffEditors: this.toLogEntry(gitVerdicts[index]),
+                    cleanTabs: this.toLogEntry(cleanVerdicts[index])
+                });
+            });
+
+            if (tabs.length === 1) {
+                const choice = await vscode.window.showInformationMessage(
+                    `"${tabs[0].label}": Close Git Diff Editors: ${this.describe(gitVerdicts[0])}. Clean Tabs: ${this.describe(cleanVerdicts[0])}.`,
+                    'Show Details'
+                );
+                if (choice === 'Show Details') {
+                    Logger.show();
+                }
+                return;
+            }
+
+            Logger.show();
+            await vscode.window.showQuickPick(
+                tabs.map((tab, index) => ({
+                    label: `${gitVerdicts[index].close || cleanVerdicts[index].close ? '$(close)' : '$(pass)'} ${tab.label}`,
+                    description: `Group ${tab.group.viewColumn}`,
+                    detail: `Close Git Diff Editors: ${this.describe(gitVerdicts[index])} · Clean Tabs: ${this.describe(cleanVerdicts[index])}`
+                })),
+                { title: 'Tab Classification', placeHolder: 'Details are written to the CleanX output', matchOnDetail: true }
+            );
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            Logger.error('Failed to inspect tab classification', error);
+            vscode.window.showErrorMessage(`Failed to inspect tab classification: ${errorMessage}`);
+        }
+    }
+
+    /**
+     * Let the user choose between the active tab and all tabs
+     * @returns The tabs to inspect, or undefined if cancelled
+     */
+    private async pickTabs(): Promise<readonly vscode.Tab[] | undefined> {
+        const allTabs = vscode.window.tabGroups.all.flatMap(tabGroup => tabGroup.tabs);
+        const activeTab = vscode.window.tabGroups.activeTabGroup.activeTab;
+        if (!activeTab) {
+            return allTabs;
+        }
+
+        const selected = await vscode.window.showQuickPick([
+            { label: '$(file) Active Tab', description: activeTab.label, tabs: [activeTab] },
+            { label: '$(files) All Tabs', description: `${allTabs.length} tabs`, tabs: allTabs }
+        ], { title: 'Inspect Tab Classification', placeHolder: 'Choose which tabs to inspect' });
+
+        return selected?.tabs;
+    }
+
+    /**
+     * Short description of a verdict, e.g. `closes (Git editor: label contains " vs ")`
+     */
+    private describe(verdict: TabCloseVerdict): string {
+        return `${verdict.close ? 'closes' : 'keeps open'} (${verdict.reason})`;
+    }
+
+    /**
+     * Structured form of a verdict for the output channel
+     */
+    private toLogEntry(verdict: TabCloseVerdict): object {
+        return {
+            close: verdict.close,
+            rule: verdict.ruleIndex !== undefined ? { index: verdict.ruleIndex, ...verdict.rule } : undefined,
+            gitEditor: verdict.gitEditor,
+            reason: verdict.reason
+        };
+    }
+}
@@ -1,5 +1,6 @@
 import * as vscode from 'vscode';
 import { TabWorkspaceService } from '../services/tabWorkspaceService';
+import { SharedWorkspaceService } from '../services/sharedWorkspaceService';
 import { TabWorkspace } from '../types';
 import { Logger } from '../utils/logger';
 
@@ -29,10 +30,11 @@ export class LoadTabWorkspaceCommand {
 
     /**
      * Execute the command to load a saved workspace
+     * @param showAllScopes Whether to list workspaces of other folders too (defaults to the current scope and global)
      */
-    private async execute(): Promise<void> {
+    private async execute(showAllScopes: boolean = false): Promise<void> {
         try {
-            const workspaces = this.workspaceService.getWorkspaces();
+            const workspaces = this.workspaceService.getWorkspaces(showAllScopes === true);
             
             if (workspaces.length === 0) {
                 vscode.window.showInformationMessage(
@@ -50,7 +52,7 @@ export class LoadTabWorkspaceCommand {
             const quickPickItems = this.createQuickPickItems(workspaces);
             
             // Add management options
-            const managementItems = this.createManagementItems();
+            const managementItems = this.createManagementItems(showAllScopes === true);
             
             const allItems = [...quickPickItems, ...managementItems];
 
@@ -84,33 +86,101 @@ export class LoadTabWorkspaceCommand {
     }
 
     /**
-     * Create quick pick items for workspaces
+     * Create quick pick items for workspaces, grouped by scope (current scope first, then global, then others),
+     * followed by the automatic workspaces of Git branches in their own section
      */
     private createQuickPickItems(workspaces: TabWorkspace[]): vscode.QuickPickItem[] {
         const currentWorkspaceName = this.workspaceService.getCurrentWorkspaceName();
-        
-        return workspaces
-            .sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime()) // Most recent first
-            .map(workspace => {
-                const isCurrentWorkspace = workspace.name === currentWorkspaceName;
-                const icon = isCurrentWorkspace ? '$(check)' : '$(folder)';
+        const currentWorkspaceScope = this.workspaceService.getCurrentWorkspaceScope();
+        const namedWorkspaces = workspaces.filter(workspace => workspace.branch === undefined);
+        const branchWorkspaces = workspaces.filter(workspace => workspace.branch !== undefined);
+        const scopes = this.getOrderedScopes(namedWorkspaces);
+        const items: vscode.QuickPickItem[] = [];
+
+        for (const scope of scopes) {
+            const scopeWorkspaces = namedWorkspaces
+                .filter(workspace => workspace.scope === scope)
+                .sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime()); // Most recent first
+
+            if (scopes.length > 1 || branchWorkspaces.length > 0) {
+                items.push({
+                    label: this.workspaceService.getScopeLabel(scope),
+                    kind: vscode.QuickPickItemKind.Separator
+                });
+            }
+
+            for (const workspace of scopeWorkspaces) {
+                const isCurrentWorkspace = workspace.name === currentWorkspaceName && workspace.scope === currentWorkspaceScope;
+                const icon = isCurrentWorkspace ? '$(check)' : this.getScopeIcon(workspace);
                 const label = `${icon} ${workspace.name}`;
                 const description = isCurrentWorkspace ? '(Current)' : '';
-                const detail = `${workspace.tabs.length} tabs • Modified: ${workspace.lastModified.toLocaleString()}`;
+                const groupInfo = workspace.groups.length > 1 ? ` in ${workspace.groups.length} groups` : '';
+                const detail = `${TabWorkspaceService.getTabCount(workspace)} tabs${groupInfo} • Modified: ${workspace.lastModified.toLocaleString()}`;
                 
-                return {
+                items.push({
                     label,
                     description,
                     detail,
                     workspace
-                };
+                });
+            }
+        }
+
+        if (branchWorkspaces.length > 0) {
+            items.push({ label: 'Branches', kind: vscode.QuickPickItemKind.Separator });
+        }
+        for (const workspace of branchWorkspaces) {
+            const isCurrentWorkspace = workspace.name === currentWorkspaceName && workspace.scope === currentWorkspaceScope;
+            const scopeLabel = workspace.scope === this.workspaceService.getCurrentScope() ? '' : this.workspaceService.getScopeLabel(workspace.scope);
+            const groupInfo = workspace.groups.length > 1 ? ` in ${workspace.groups.length} groups` : '';
+
+            items.push({
+                label: `${isCurrentWorkspace ? '$(check)' : '$(git-branch)'} ${workspace.branch}`,
+                description: [isCurrentWorkspace ? '(Current)' : '', scopeLabel].filter(part => part !== '').join(' · '),
+                detail: `${TabWorkspaceService.getTabCount(workspace)} tabs${groupInfo} • Saved on checkout: ${workspace.lastModified.toLocaleString()}`,
+                workspace
             });
+        }
+
+        return items;
+    }
+
+    /**
+     * Get the icon for a workspace based on where it is stored
+     */
+    private getScopeIcon(workspace: TabWorkspace): string {
+        if (TabWorkspaceService.isShared(workspace)) {
+            return '$(organization)';
+        }
+        return workspace.scope === TabWorkspaceService.GLOBAL_SCOPE ? '$(globe)' : '$(folder)';
+    }
+
+    /**
+     * Get the distinct scopes of the given workspaces: current scope, shared, global, then all others
+     */
+    private getOrderedScopes(workspaces: TabWorkspace[]): Array<string | undefined> {
+        const currentScope = this.workspaceService.getCurrentScope();
+        const rank = (scope: string | undefined) => {
+            if (scope === currentScope) {
+                return 0;
+            }
+            if (scope === SharedWorkspaceService.SCOPE) {
+                return 1;
+            }
+            if (scope === TabWorkspaceService.GLOBAL_SCOPE) {
+                return 2;
+            }
+            return scope === undefined ? 4 : 3;
+        };
+
+        return [...new Set(workspaces.map(workspace => workspace.scope))]
+            .sort((a, b) => rank(a) - rank(b));
     }
 
     /**
      * Create management action items
      */
-    private createManagementItems(): vscode.QuickPickItem[] {
+    private createManagementItems(showAllScopes: boolean): vscode.QuickPickItem[] {
         const statistics = this.workspaceService.getWorkspaceStatistics();
         const items: vscode.QuickPickItem[] = [];
 
@@ -133,6 +203,12 @@ export class LoadTabWorkspaceCommand {
             action: 'rename'
         });
 
+        items.push({
+            label: '$(arrow-swap) Change Workspace Scope',
+            description: 'Share a workspace globally or move it back to this folder',
+            action: 'change-scope'
+        });
+
         items.push({
             label: '$(add) New Workspace',
             description: 'Create a new workspace from current tabs (without saving current)',
@@ -147,6 +223,14 @@ export class LoadTabWorkspaceCommand {
             });
         }
 
+        if (!showAllScopes) {
+            items.push({
+                label: '$(list-flat) Show All Scopes',
+                description: 'Include workspaces saved in other folders',
+                action: 'show-all-scopes'
+            });
+        }
+
         return items;
     }
 
@@ -155,9 +239,10 @@ export class LoadTabWorkspaceCommand {
      */
     private async loadSelectedWorkspace(workspace: TabWorkspace): Promise<void> {
         const currentWorkspaceName = this.workspaceService.getCurrentWorkspaceName();
+        const currentWorkspaceScope = this.workspaceService.getCurrentWorkspaceScope();
         
         // If it's already the current workspace, ask for confirmation
-        if (workspace.name === currentWorkspaceName) {
+        if (workspace.name === currentWorkspaceName && workspace.scope === currentWorkspaceScope) {
             const reload = await vscode.window.showWarningMessage(
                 `"${workspace.name}" is already the current workspace. Reload it?`,
                 { modal: true },
@@ -186,7 +271,10 @@ export class LoadTabWorkspaceCommand {
         }
 
         // Load the workspace (without auto-saving current state)
-        const result = await this.workspaceService.loadWorkspace(workspace.name, false);
+        const result = await this.workspaceService.loadWorkspace(workspace.name, false, workspace.scope);
+        if (!result) {
+            return;
+        }
         
         // Show appropriate message based on results
         if (result.skipped > 0) {
@@ -219,6 +307,12 @@ export class LoadTabWorkspaceCommand {
             case 'new-workspace':
                 await this.createNewWorkspace();
                 break;
+            case 'change-scope':
+                await this.changeWorkspaceScope(workspaces);
+                break;
+            case 'show-all-scopes':
+                await this.execute(true);
+                break;
         }
     }
 
@@ -233,7 +327,7 @@ export class LoadTabWorkspaceCommand {
 
         const items = workspaces.map(workspace => ({
             label: `$(trash) ${workspace.name}`,
-            description: `${workspace.tabs.length} tabs`,
+            description: `${TabWorkspaceService.getTabCount(workspace)} tabs • ${this.workspaceService.getScopeLabel(workspace.scope)}`,
             detail: `Created: ${workspace.createdAt.toLocaleString()}`,
             workspace
         }));
@@ -247,7 +341,7 @@ export class LoadTabWorkspaceCommand {
             return;
         }
 
-        await this.workspaceService.deleteWorkspace(selected.workspace.name);
+        await this.workspaceService.deleteWorkspace(selected.workspace.name, selected.workspace.scope);
         vscode.window.showInformationMessage(`Deleted workspace "${selected.workspace.name}"`);
     }
 
@@ -262,7 +356,7 @@ export class LoadTabWorkspaceCommand {
 
         const items = workspaces.map(workspace => ({
             label: `$(edit) ${workspace.name}`,
-            description: `${workspace.tabs.length} tabs`,
+            description: `${TabWorkspaceService.getTabCount(workspace)} tabs • ${this.workspaceService.getScopeLabel(workspace.scope)}`,
             detail: `Created: ${workspace.createdAt.toLocaleString()}`,
             workspace
         }));
@@ -291,7 +385,7 @@ export class LoadTabWorkspaceCommand {
                     return 'New name must be different from current name';
                 }
                 
-                if (workspaces.some(w => w.name === trimmed)) {
+                if (workspaces.some(w => w.name === trimmed && w.scope === selected.workspace.scope)) {
                     return 'A workspace with this name already exists';
                 }
                 
@@ -300,13 +394,47 @@ export class LoadTabWorkspaceCommand {
         });
 
         if (newName?.trim()) {
-            await this.workspaceService.renameWorkspace(selected.workspace.name, newName.trim());
+            await this.workspaceService.renameWorkspace(selected.workspace.name, newName.trim(), selected.workspace.scope);
             vscode.window.showInformationMessage(
                 `Renamed workspace from "${selected.workspace.name}" to "${newName.trim()}"`
             );
         }
     }
 
+    /**
+     * Move a workspace between the current folder scope and the global scope
+     */
+    private async changeWorkspaceScope(allWorkspaces: TabWorkspace[]): Promise<void> {
+        const workspaces = allWorkspaces.filter(workspace => !TabWorkspaceService.isShared(workspace));
+        if (workspaces.length === 0) {
+            vscode.window.showInformationMessage('No workspaces to move.');
+            return;
+        }
+
+        const items = workspaces.map(workspace => ({
+            label: `$(arrow-swap) ${workspace.name}`,
+            description: this.workspaceService.getScopeLabel(workspace.scope),
+            detail: `${TabWorkspaceService.getTabCount(workspace)} tabs`,
+            workspace
+        }));
+
+        const selected = await vscode.window.showQuickPick(items, {
+            placeHolder: 'Select a workspace to move',
+            title: 'Change Workspace Scope'
+        });
+
+        if (!selected) {
+            return;
+        }
+
+        const isGlobal = selected.workspace.scope === TabWorkspaceService.GLOBAL_SCOPE;
+        const targetScope = isGlobal ? this.workspaceService.getCurrentScope() : TabWorkspaceService.GLOBAL_SCOPE;
+        const targetLabel = this.workspaceService.getScopeLabel(targetScope);
+
+        await this.workspaceService.moveWorkspaceToScope(selected.workspace.name, selected.workspace.scope, targetScope);
+        vscode.window.showInformationMessage(`Moved workspace "${selected.workspace.name}" to ${targetLabel}`);
+    }
+
     /**
      * Restore the previous workspace
      */
@@ -319,8 +447,9 @@ export class LoadTabWorkspaceCommand {
         );
 
         if (confirm === 'Restore') {
-            await this.workspaceService.restorePreviousWorkspace();
-            vscode.window.showInformationMessage('Previous workspace restored successfully');
+            if (await this.workspaceService.restorePreviousWorkspace()) {
+                vscode.window.showInformationMessage('Previous workspace restored successfully');
+            }
         }
     }
 
@@ -354,7 +483,7 @@ export class LoadTabWorkspaceCommand {
                 }
 
                 // Check if workspace name already exists
-                const existingWorkspace = this.workspaceService.getWorkspace(trimmed);
+                const existingWorkspace = this.workspaceService.getWorkspace(trimmed, this.workspaceService.getDefaultScope());
                 if (existingWorkspace) {
                     return 'A workspace with this name already exists';
                 }
@@ -372,7 +501,7 @@ export class LoadTabWorkspaceCommand {
             const workspace = await this.workspaceService.saveCurrentTabsAsWorkspace(workspaceName.trim(), false);
             
             vscode.window.showInformationMessage(
-                `Created new workspace "${workspaceName.trim()}" with ${workspace.tabs.length} tabs`
+                `Created new workspace "${workspaceName.trim()}" with ${TabWorkspaceService.getTabCount(workspace)} tabs`
             );
 
             Logger.info(`User created new workspace: ${workspaceName.trim()}`);
@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+import { GitDiffEditorService } from '../services/gitDiffEditorService';
+import { TabWorkspaceService } from '../services/tabWorkspaceService';
+import { ConfigurationManager } from '../utils/configurationManager';
+import { Logger } from '../utils/logger';
+
+/**
+ * Command handler for replacing the open tabs with every file that has Git changes
+ */
+export class OpenChangedFilesCommand {
+    private static readonly COMMAND_ID = 'cleanx.openChangedFiles';
+
+    constructor(
+        private readonly gitDiffService: GitDiffEditorService,
+        private readonly workspaceService: TabWorkspaceService
+    ) {}
+
+    /**
+     * Register the command with VS Code
+     */
+    public register(context: vscode.ExtensionContext): void {
+        const disposable = vscode.commands.registerCommand(
+            OpenChangedFilesCommand.COMMAND_ID,
+            this.execute.bind(this)
+        );
+
+        context.subscriptions.push(disposable);
+    }
+
+    /**
+     * Execute the command to open all changed files as a new tab set
+     */
+    private async execute(): Promise<void> {
+        try {
+            const files = await this.gitDiffService.getChangedFiles();
+            if (!files) {
+                vscode.window.showWarningMessage('Open All Changed Files needs the built-in Git extension, which is disabled or not available');
+                return;
+            }
+            if (files.length === 0) {
+                vscode.window.showInformationMessage('No changed files to open');
+                return;
+            }
+
+            const result = await this.workspaceService.openTabSet(files, 'Open Changed Files');
+            if (!result) {
+                return;
+            }
+
+            if (ConfigurationManager.getConfig().showNotifications) {
+                const skipped = result.skipped > 0 ? ` (${result.skipped} could not be opened)` : '';
+                vscode.window.showInformationMessage(`Opened ${result.opened} changed file${result.opened === 1 ? '' : 's'}${skipped}`);
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            Logger.error('Failed to open changed files', error);
+            vscode.window.showErrorMessage(`Failed to open changed files: ${errorMessage}`);
+        }
+    }
+}
@@ -56,7 +56,7 @@ export class SaveTabWorkspaceCommand {
                 }
 
                 if (action.action === 'update') {
-                    await this.saveToExistingWorkspace(currentWorkspaceName);
+                    await this.saveToExistingWorkspace(currentWorkspaceName, this.workspaceService.getCurrentWorkspaceScope());
                     return;
                 }
                 // Continue to create new workspace
@@ -68,8 +68,8 @@ export class SaveTabWorkspaceCommand {
                 return; // User cancelled
             }
 
-            // Check if workspace name already exists
-            const existingWorkspace = this.workspaceService.getWorkspace(workspaceName);
+            // Check if workspace name already exists in the scope it will be saved to
+            const existingWorkspace = this.workspaceService.getWorkspace(workspaceName, this.workspaceService.getDefaultScope());
             if (existingWorkspace) {
                 const overwrite = await vscode.window.showWarningMessage(
                     `Workspace "${workspaceName}" already exists. Do you want to overwrite it?`,
@@ -87,7 +87,7 @@ export class SaveTabWorkspaceCommand {
             const workspace = await this.workspaceService.saveCurrentTabsAsWorkspace(workspaceName);
             
             vscode.window.showInformationMessage(
-                `Workspace "${workspaceName}" saved with ${workspace.tabs.length} tabs`
+                `Workspace "${workspaceName}" saved with ${TabWorkspaceService.getTabCount(workspace)} tabs`
             );
 
             Logger.info(`User saved workspace: ${workspaceName}`);
@@ -101,11 +101,11 @@ export class SaveTabWorkspaceCommand {
     /**
      * Save current tabs to an existing workspace
      */
-    private async saveToExistingWorkspace(workspaceName: string): Promise<void> {
-        const workspace = await this.workspaceService.saveCurrentTabsAsWorkspace(workspaceName);
+    private async saveToExistingWorkspace(workspaceName: string, scope: string | undefined): Promise<void> {
+        const workspace = await this.workspaceService.saveCurrentTabsAsWorkspace(workspaceName, false, scope);
         
         vscode.window.showInformationMessage(
-            `Updated workspace "${workspaceName}" with ${workspace.tabs.length} tabs`
+            `Updated workspace "${workspaceName}" with ${TabWorkspaceService.getTabCount(workspace)} tabs`
         );
 
         Logger.info(`User updated workspace: ${workspaceName}`);
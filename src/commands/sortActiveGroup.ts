@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { TabSortingService } from '../services/tabSortingService';
+import { ConfigurationManager } from '../utils/configurationManager';
+import { Logger } from '../utils/logger';
+
+/**
+ * Command handler for sorting only the tabs of the active editor group
+ */
+export class SortActiveGroupCommand {
+    private static readonly COMMAND_ID = 'cleanx.sortActiveGroup';
+
+    constructor(private readonly sortingService: TabSortingService) {}
+
+    /**
+     * Register the command with VS Code
+     */
+    public register(context: vscode.ExtensionContext): void {
+        const disposable = vscode.commands.registerCommand(
+            SortActiveGroupCommand.COMMAND_ID,
+            this.execute.bind(this)
+        );
+        
+        context.subscriptions.push(disposable);
+    }
+
+    /**
+     * Execute the command to sort the active group's tabs
+     */
+    private async execute(): Promise<void> {
+        try {
+            const config = ConfigurationManager.getConfig();
+            
+            const movedCount = await this.sortingService.sortActiveGroup(TabSortingService.getSortOptions(config));
+            
+            if (config.showNotifications) {
+                if (movedCount > 0) {
+                    vscode.window.showInformationMessage(
+                        `Sorted active group (moved ${movedCount} tab${movedCount === 1 ? '' : 's'})`
+                    );
+                } else {
+                    vscode.window.showInformationMessage('Tabs in the active group are already in correct order');
+                }
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            Logger.error('Failed to sort active group', error);
+            vscode.window.showErrorMessage(`Failed to sort active group: ${errorMessage}`);
+        }
+    }
+}
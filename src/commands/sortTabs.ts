@@ -1,10 +1,11 @@
 import * as vscode from 'vscode';
 import { TabSortingService } from '../services/tabSortingService';
+import { TabSortKey } from '../types';
 import { ConfigurationManager } from '../utils/configurationManager';
 import { Logger } from '../utils/logger';
 
 /**
- * Command handler for sorting tabs by file type and alphabetically
+ * Command handler for sorting tabs by the configured sort keys or a saved preset
  */
 export class SortTabsCommand {
     private static readonly COMMAND_ID = 'cleanx.sortTabs';
@@ -29,13 +30,21 @@ export class SortTabsCommand {
     private async execute(): Promise<void> {
         try {
             const config = ConfigurationManager.getConfig();
+
+            const keys = await this.pickSortKeys(config.sortKeys);
+            if (!keys) {
+                return;
+            }
             
-            const sortedCount = await this.sortingService.sortTabs(config.customFileTypeOrder);
+            const movedCount = await this.sortingService.sortTabs(
+                TabSortingService.getSortOptions(config, keys),
+                config.consolidateGroupsWhenSorting
+            );
             
             if (config.showNotifications) {
-                if (sortedCount > 0) {
+                if (movedCount > 0) {
                     vscode.window.showInformationMessage(
-                        `Sorted ${sortedCount} tab${sortedCount === 1 ? '' : 's'}`
+                        `Sorted tabs (moved ${movedCount} tab${movedCount === 1 ? '' : 's'})`
                     );
                 } else {
                     vscode.window.showInformationMessage('No tabs to sort or tabs already in correct order');
@@ -47,4 +56,31 @@ export class SortTabsCommand {
             vscode.window.showErrorMessage(`Failed to sort tabs: ${errorMessage}`);
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Let the user choose between the default sort keys and the saved presets
+     * @returns The chosen sort keys, or undefined if cancelled
+     */
+    private async pickSortKeys(defaultKeys: TabSortKey[]): Promise<TabSortKey[] | undefined> {
+        const { sortPresets } = ConfigurationManager.getConfig();
+        if (sortPresets.length === 0) {
+            return defaultKeys;
+        }
+
+        const items: Array<vscode.QuickPickItem & { keys: TabSortKey[] }> = [
+            { label: '$(settings-gear) Default', description: defaultKeys.join(' → '), keys: defaultKeys },
+            ...sortPresets.map(preset => ({
+                label: `$(list-ordered) ${preset.name}`,
+                description: preset.keys.join(' → '),
+                keys: preset.keys
+            }))
+        ];
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title: 'Sort Tabs',
+            placeHolder: 'Choose how to sort tabs'
+        });
+
+        return selected?.keys;
+    }
+}
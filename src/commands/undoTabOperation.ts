@@ -0,0 +1,52 @@
+import * as vscode from 'vscode';
+import { TabOperationJournalService } from '../services/tabOperationJournalService';
+import { ConfigurationManager } from '../utils/configurationManager';
+import { Logger } from '../utils/logger';
+
+/**
+ * Command handler for undoing the last bulk tab operation (closing Git editors, sorting, loading a workspace)
+ */
+export class UndoTabOperationCommand {
+    private static readonly COMMAND_ID = 'cleanx.undoTabOperation';
+
+    constructor(private readonly journal: TabOperationJournalService) {}
+
+    /**
+     * Register the command with VS Code
+     */
+    public register(context: vscode.ExtensionContext): void {
+        const disposable = vscode.commands.registerCommand(
+            UndoTabOperationCommand.COMMAND_ID,
+            this.execute.bind(this)
+        );
+        
+        context.subscriptions.push(disposable);
+    }
+
+    /**
+     * Execute the command to restore the tab layout from before the last operation
+     */
+    private async execute(): Promise<void> {
+        try {
+            const lastOperation = this.journal.getLastOperation();
+            if (!lastOperation) {
+                vscode.window.showInformationMessage('No tab operation to undo');
+                return;
+            }
+
+            const result = await this.journal.undo();
+            if (!result) {
+                return;
+            }
+
+            if (ConfigurationManager.getConfig().showNotifications) {
+                const skipped = result.skipped > 0 ? ` (${result.skipped} could not be restored)` : '';
+                vscode.window.showInformationMessage(`Undid "${lastOperation.operation}"${skipped}`);
+            }
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            Logger.error('Failed to undo tab operation', error);
+            vscode.window.showErrorMessage(`Failed to undo tab operation: ${errorMessage}`);
+        }
+    }
+}
@@ -2,10 +2,26 @@ import * as vscode from 'vscode';
 import { GitDiffEditorService } from '../services/gitDiffEditorService';
 import { TabSortingService } from '../services/tabSortingService';
 import { TabWorkspaceService } from '../services/tabWorkspaceService';
+import { TabLayoutService } from '../services/tabLayoutService';
+import { TabOperationJournalService } from '../services/tabOperationJournalService';
+import { TabActivityService } from '../services/tabActivityService';
+import { TabInputService } from '../services/tabInputService';
+import { TabCleanupService } from '../services/tabCleanupService';
+import { MissingFileTabService } from '../services/missingFileTabService';
+import { BranchWorkspaceService } from '../services/branchWorkspaceService';
 import { CloseGitDiffEditorsCommand } from '../commands/closeGitDiffEditors';
+import { CleanTabsCommand } from '../commands/cleanTabs';
+import { InspectTabClassificationCommand } from '../commands/inspectTabClassification';
 import { SortTabsCommand } from '../commands/sortTabs';
+import { SortActiveGroupCommand } from '../commands/sortActiveGroup';
 import { SaveTabWorkspaceCommand } from '../commands/saveTabWorkspace';
 import { LoadTabWorkspaceCommand } from '../commands/loadTabWorkspace';
+import { ExportTabWorkspacesCommand } from '../commands/exportTabWorkspaces';
+import { ImportTabWorkspacesCommand } from '../commands/importTabWorkspaces';
+import { UndoTabOperationCommand } from '../commands/undoTabOperation';
+import { CloseUnmodifiedFilesCommand } from '../commands/closeUnmodifiedFiles';
+import { OpenChangedFilesCommand } from '../commands/openChangedFiles';
+import { CloseMissingFileTabsCommand } from '../commands/closeMissingFileTabs';
 import { ConfigurationManager } from '../utils/configurationManager';
 import { Logger } from '../utils/logger';
 
@@ -14,22 +30,50 @@ import { Logger } from '../utils/logger';
  */
 export class ExtensionManager {
     private gitDiffService: GitDiffEditorService;
+    private cleanupService: TabCleanupService;
     private sortingService: TabSortingService;
     private workspaceService: TabWorkspaceService;
+    private branchWorkspaceService: BranchWorkspaceService;
+    private journal: TabOperationJournalService;
     private closeCommand: CloseGitDiffEditorsCommand;
+    private cleanTabsCommand: CleanTabsCommand;
+    private inspectClassificationCommand: InspectTabClassificationCommand;
     private sortCommand: SortTabsCommand;
+    private sortActiveGroupCommand: SortActiveGroupCommand;
     private saveWorkspaceCommand: SaveTabWorkspaceCommand;
     private loadWorkspaceCommand: LoadTabWorkspaceCommand;
+    private exportWorkspacesCommand: ExportTabWorkspacesCommand;
+    private importWorkspacesCommand: ImportTabWorkspacesCommand;
+    private undoCommand: UndoTabOperationCommand;
+    private closeUnmodifiedCommand: CloseUnmodifiedFilesCommand;
+    private openChangedCommand: OpenChangedFilesCommand;
+    private closeMissingCommand: CloseMissingFileTabsCommand;
     private configWatcher?: vscode.Disposable;
 
     constructor(private readonly context: vscode.ExtensionContext) {
+        const layoutService = new TabLayoutService(context);
+        this.journal = new TabOperationJournalService(layoutService);
+        const activityService = new TabActivityService(new TabInputService());
+        context.subscriptions.push(activityService);
         this.gitDiffService = new GitDiffEditorService();
-        this.sortingService = new TabSortingService();
-        this.workspaceService = new TabWorkspaceService(context);
-        this.closeCommand = new CloseGitDiffEditorsCommand(this.gitDiffService);
+        context.subscriptions.push(this.gitDiffService);
+        this.cleanupService = new TabCleanupService(this.gitDiffService, activityService, this.journal);
+        this.sortingService = new TabSortingService(context, this.journal, activityService);
+        this.workspaceService = new TabWorkspaceService(context, layoutService, this.journal);
+        this.branchWorkspaceService = new BranchWorkspaceService(context, this.workspaceService);
+        this.closeCommand = new CloseGitDiffEditorsCommand(this.cleanupService);
+        this.cleanTabsCommand = new CleanTabsCommand(this.cleanupService);
+        this.inspectClassificationCommand = new InspectTabClassificationCommand(this.cleanupService);
         this.sortCommand = new SortTabsCommand(this.sortingService);
+        this.sortActiveGroupCommand = new SortActiveGroupCommand(this.sortingService);
         this.saveWorkspaceCommand = new SaveTabWorkspaceCommand(this.workspaceService);
         this.loadWorkspaceCommand = new LoadTabWorkspaceCommand(this.workspaceService);
+        this.exportWorkspacesCommand = new ExportTabWorkspacesCommand(this.workspaceService);
+        this.importWorkspacesCommand = new ImportTabWorkspacesCommand(this.workspaceService);
+        this.undoCommand = new UndoTabOperationCommand(this.journal);
+        this.closeUnmodifiedCommand = new CloseUnmodifiedFilesCommand(this.cleanupService);
+        this.openChangedCommand = new OpenChangedFilesCommand(this.gitDiffService, this.workspaceService);
+        this.closeMissingCommand = new CloseMissingFileTabsCommand(new MissingFileTabService(context, this.workspaceService, this.cleanupService));
     }
 
     /**
@@ -39,11 +83,26 @@ export class ExtensionManager {
         try {
             Logger.initialize('CleanX');
 
+            // Bring stored tab workspaces up to date
+            await this.workspaceService.migrateStoredWorkspaces();
+
+            // Watch the current Git branch without waiting for the Git extension to activate
+            void this.branchWorkspaceService.initialize();
+
             // Register commands
             this.closeCommand.register(this.context);
+            this.cleanTabsCommand.register(this.context);
+            this.inspectClassificationCommand.register(this.context);
             this.sortCommand.register(this.context);
+            this.sortActiveGroupCommand.register(this.context);
             this.saveWorkspaceCommand.register(this.context);
             this.loadWorkspaceCommand.register(this.context);
+            this.exportWorkspacesCommand.register(this.context);
+            this.importWorkspacesCommand.register(this.context);
+            this.undoCommand.register(this.context);
+            this.closeUnmodifiedCommand.register(this.context);
+            this.openChangedCommand.register(this.context);
+            this.closeMissingCommand.register(this.context);
 
             // Watch for configuration changes
             this.setupConfigurationWatcher();
@@ -91,7 +150,11 @@ export class ExtensionManager {
         const updateStatusBar = () => {
             const currentWorkspace = this.workspaceService.getCurrentWorkspaceName();
             if (currentWorkspace) {
-                statusBarItem.text = `$(folder-active) ${currentWorkspace}`;
+                const hasUnsavedChanges = this.workspaceService.hasUnsavedTabChanges();
+                statusBarItem.text = `$(folder-active) ${currentWorkspace}${hasUnsavedChanges ? ' ●' : ''}`;
+                statusBarItem.tooltip = hasUnsavedChanges
+                    ? 'Open tabs differ from the saved workspace. Click to manage tab workspaces'
+                    : 'Click to manage tab workspaces';
                 statusBarItem.show();
             } else {
                 statusBarItem.hide();
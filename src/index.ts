@@ -3,19 +3,43 @@ export { ExtensionManager } from './core/extensionManager';
 
 // Command exports
 export { CloseGitDiffEditorsCommand } from './commands/closeGitDiffEditors';
+export { CleanTabsCommand } from './commands/cleanTabs';
+export { InspectTabClassificationCommand } from './commands/inspectTabClassification';
 export { SortTabsCommand } from './commands/sortTabs';
+export { SortActiveGroupCommand } from './commands/sortActiveGroup';
 export { SaveTabWorkspaceCommand } from './commands/saveTabWorkspace';
 export { LoadTabWorkspaceCommand } from './commands/loadTabWorkspace';
+export { ExportTabWorkspacesCommand } from './commands/exportTabWorkspaces';
+export { ImportTabWorkspacesCommand } from './commands/importTabWorkspaces';
+export { UndoTabOperationCommand } from './commands/undoTabOperation';
+export { CloseUnmodifiedFilesCommand } from './commands/closeUnmodifiedFiles';
+export { OpenChangedFilesCommand } from './commands/openChangedFiles';
+export { CloseMissingFileTabsCommand } from './commands/closeMissingFileTabs';
 
 // Service exports
 export { GitDiffEditorService } from './services/gitDiffEditorService';
 export { TabSortingService } from './services/tabSortingService';
 export { TabWorkspaceService } from './services/tabWorkspaceService';
 export { GitignoreService } from './services/gitignoreService';
+export { EditorViewStateService } from './services/editorViewStateService';
+export { TabInputService } from './services/tabInputService';
+export { SharedWorkspaceService } from './services/sharedWorkspaceService';
+export { TabReorderService } from './services/tabReorderService';
+export { UnsavedTabGuardService } from './services/unsavedTabGuardService';
+export { TabActivityService } from './services/tabActivityService';
+export { GitRepositoryService } from './services/gitRepositoryService';
+export { TabLayoutService } from './services/tabLayoutService';
+export { TabOperationJournalService } from './services/tabOperationJournalService';
+export { TabCleanupService } from './services/tabCleanupService';
+export { MissingFileTabService } from './services/missingFileTabService';
+export { BranchWorkspaceService } from './services/branchWorkspaceService';
 
 // Utility exports
 export { ConfigurationManager } from './utils/configurationManager';
 export { Logger } from './utils/logger';
+export { TabEvents } from './utils/tabEvents';
+export { GlobMatcher } from './utils/globMatcher';
+export { GitignoreMatcher } from './utils/gitignoreMatcher';
 
 // Type exports
 export * from './types';
\ No newline at end of file
@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+import { GitRepository } from '../types/git';
+import { GitRepositoryService } from './gitRepositoryService';
+import { TabWorkspaceService } from './tabWorkspaceService';
+import { ConfigurationManager } from '../utils/configurationManager';
+import { Logger } from '../utils/logger';
+
+/**
+ * Service that keeps a tab workspace per Git branch: on checkout the open tabs are saved
+ * for the old branch and the tabs saved for the new branch are loaded.
+ * Watches the repository of the first workspace folder through the Git extension,
+ * or its `.git/HEAD` file when the Git extension is not available.
+ */
+export class BranchWorkspaceService {
+    private currentBranch?: string;
+    private watchedRepository?: GitRepository;
+    private pendingSwitch: Promise<void> = Promise.resolve();
+
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly workspaceService: TabWorkspaceService,
+        private readonly gitRepositoryService: GitRepositoryService = new GitRepositoryService()
+    ) {}
+
+    /**
+     * Start watching the current branch
+     * @param folder Workspace folder whose repository to watch, defaults to the first one
+     */
+    public async initialize(folder: vscode.WorkspaceFolder | undefined = vscode.workspace.workspaceFolders?.[0]): Promise<void> {
+        if (!folder) {
+            return;
+        }
+
+        try {
+            const api = await this.gitRepositoryService.getApi();
+            if (!api) {
+                await this.watchHeadFile(folder);
+                return;
+            }
+
+            const repository = api.getRepository(folder.uri);
+            if (repository) {
+                this.watchRepository(repository);
+            } else {
+                // Repositories are opened after activation, so wait for the one of the folder
+                const listener = api.onDidOpenRepository(() => {
+                    const opened = api.getRepository(folder.uri);
+                    if (opened) {
+                        listener.dispose();
+                        this.watchRepository(opened);
+                    }
+                });
+                this.context.subscriptions.push(listener);
+            }
+        } catch (error) {
+            Logger.error('Failed to watch the current Git branch', error);
+        }
+    }
+
+    /**
+     * Follow branch changes reported by the Git extension
+     */
+    private watchRepository(repository: GitRepository): void {
+        if (this.watchedRepository) {
+            return;
+        }
+
+        this.watchedRepository = repository;
+        this.currentBranch = repository.state.HEAD?.name;
+        this.context.subscriptions.push(
+            repository.state.onDidChange(() => this.onBranchChanged(repository.state.HEAD?.name))
+        );
+        Logger.debug(`Watching branch of ${repository.rootUri.fsPath}: ${this.currentBranch ?? '(detached)'}`);
+    }
+
+    /**
+     * Follow branch changes by reading `.git/HEAD` whenever it changes
+     */
+    private async watchHeadFile(folder: vscode.WorkspaceFolder): Promise<void> {
+        const headUri = vscode.Uri.joinPath(folder.uri, '.git', 'HEAD');
+        const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, '.git/HEAD'));
+        const readBranch = async () => this.onBranchChanged(await this.readHeadBranch(headUri));
+
+        this.currentBranch = await this.readHeadBranch(headUri);
+        this.context.subscriptions.push(watcher, watcher.onDidChange(readBranch), watcher.onDidCreate(readBranch));
+    }
+
+    /**
+     * Read the checked out branch from a `.git/HEAD` file
+     * @returns The branch name, or undefined for a detached HEAD or a missing file
+     */
+    private async readHeadBranch(headUri: vscode.Uri): Promise<string | undefined> {
+        try {
+            const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(headUri));
+            return /^ref: refs\/heads\/(.+)$/m.exec(content)?.[1].trim();
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Remember the new branch and switch workspaces if it differs from the last one.
+     * Switches run one after another, so quick successive checkouts are handled in order.
+     */
+    private onBranchChanged(branch: string | undefined): void {
+        // Detached HEADs (e.g. during a rebase) don't get a workspace of their own
+        if (branch === undefined || branch === this.currentBranch) {
+            return;
+        }
+
+        const previousBranch = this.currentBranch;
+        this.currentBranch = branch;
+        if (previousBranch === undefined || !ConfigurationManager.getConfig().branchWorkspaces) {
+            return;
+        }
+
+        this.pendingSwitch = this.pendingSwitch.then(() => this.switchWorkspace(previousBranch, branch));
+    }
+
+    /**
+     * Save the open tabs for the old branch, then load the workspace of the new branch if it has one
+     */
+    private async switchWorkspace(previousBranch: string, branch: string): Promise<void> {
+        try {
+            await this.workspaceService.saveBranchWorkspace(previousBranch);
+
+            const workspace = this.workspaceService.getBranchWorkspace(branch);
+            if (!workspace) {
+                // Keep the tabs open, but don't let them update the old branch's workspace
+                await this.workspaceService.clearCurrentWorkspace();
+                Logger.info(`Saved tabs of branch "${previousBranch}", branch "${branch}" has no saved tabs yet`);
+                return;
+            }
+
+            const result = await this.workspaceService.loadWorkspace(workspace.name, false, workspace.scope);
+            if (result) {
+                Logger.info(`Switched from branch "${previousBranch}" to "${branch}": opened ${result.opened} tabs`);
+            }
+        } catch (error) {
+            Logger.error(`Failed to switch tab workspace from branch "${previousBranch}" to "${branch}"`, error);
+        }
+    }
+}
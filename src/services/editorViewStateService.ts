@@ -0,0 +1,122 @@
+import * as vscode from 'vscode';
+import { EditorViewState, SerializedPosition, SerializedRange } from '../types';
+
+/**
+ * Service that remembers cursor, selection and scroll state of text editors.
+ * Visible editors are read directly; background tabs fall back to the last state
+ * observed while they were visible (best effort).
+ */
+export class EditorViewStateService implements vscode.Disposable {
+    private viewStates: Map<string, EditorViewState> = new Map(); // document URI -> last known view state
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.setupEditorWatchers();
+    }
+
+    /**
+     * Get the view state for a document, preferring a visible editor in the given column
+     * @param uri URI of the document
+     * @param viewColumn Column the document's tab lives in
+     */
+    public getViewState(uri: vscode.Uri, viewColumn?: vscode.ViewColumn): EditorViewState | undefined {
+        const uriString = uri.toString();
+        const editors = vscode.window.visibleTextEditors.filter(editor => editor.document.uri.toString() === uriString);
+        const editor = editors.find(e => e.viewColumn === viewColumn) ?? editors[0];
+
+        if (editor) {
+            this.remember(editor);
+        }
+
+        return this.viewStates.get(uriString);
+    }
+
+    /**
+     * Apply a saved view state to an editor and remember it for later saves
+     */
+    public applyViewState(editor: vscode.TextEditor, viewState: EditorViewState): void {
+        const lineCount = editor.document.lineCount;
+        const selections = viewState.selections.map(selection => new vscode.Selection(
+            this.toPosition(selection.anchor, lineCount),
+            this.toPosition(selection.active, lineCount)
+        ));
+
+        if (selections.length > 0) {
+            editor.selections = selections;
+        }
+
+        const visibleRange = viewState.visibleRanges[0];
+        if (visibleRange) {
+            editor.revealRange(this.toRange(visibleRange, lineCount), vscode.TextEditorRevealType.AtTop);
+        }
+
+        this.viewStates.set(editor.document.uri.toString(), viewState);
+    }
+
+    /**
+     * Get the primary selection of a saved view state as a range (for `showTextDocument`),
+     * clamped to the document it is shown in
+     */
+    public getSelectionRange(viewState: EditorViewState, document: vscode.TextDocument): vscode.Range | undefined {
+        const selection = viewState.selections[0];
+        if (!selection) {
+            return undefined;
+        }
+
+        return this.toRange({ start: selection.anchor, end: selection.active }, document.lineCount);
+    }
+
+    /**
+     * Record the current state of a text editor
+     */
+    private remember(editor: vscode.TextEditor): void {
+        this.viewStates.set(editor.document.uri.toString(), {
+            selections: editor.selections.map(selection => ({
+                anchor: this.serializePosition(selection.anchor),
+                active: this.serializePosition(selection.active)
+            })),
+            visibleRanges: editor.visibleRanges.map(range => ({
+                start: this.serializePosition(range.start),
+                end: this.serializePosition(range.end)
+            }))
+        });
+    }
+
+    private serializePosition(position: vscode.Position): SerializedPosition {
+        return { line: position.line, character: position.character };
+    }
+
+    /**
+     * Convert a serialized position, clamping it to the document in case the file got shorter
+     */
+    private toPosition(position: SerializedPosition, lineCount: number): vscode.Position {
+        const line = Math.max(0, Math.min(position.line, lineCount - 1));
+        return new vscode.Position(line, Math.max(0, position.character));
+    }
+
+    private toRange(range: SerializedRange, lineCount: number): vscode.Range {
+        return new vscode.Range(this.toPosition(range.start, lineCount), this.toPosition(range.end, lineCount));
+    }
+
+    /**
+     * Track selection and scroll changes of all visible editors
+     */
+    private setupEditorWatchers(): void {
+        this.disposables.push(
+            vscode.window.onDidChangeTextEditorSelection(event => this.remember(event.textEditor)),
+            vscode.window.onDidChangeTextEditorVisibleRanges(event => this.remember(event.textEditor)),
+            vscode.window.onDidChangeVisibleTextEditors(editors => editors.forEach(editor => this.remember(editor)))
+        );
+
+        vscode.window.visibleTextEditors.forEach(editor => this.remember(editor));
+    }
+
+    /**
+     * Stop tracking editors
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.viewStates.clear();
+    }
+}
@@ -1,116 +1,150 @@
 import * as vscode from 'vscode';
+import { GitEditorVerdict } from '../types';
+import { GitAPI, GitStatus } from '../types/git';
 import { GitignoreService } from './gitignoreService';
+import { GitRepositoryService } from './gitRepositoryService';
 
 /**
- * Service responsible for identifying and managing Git diff editors and git-related files
+ * Service responsible for identifying Git diff editors and git-related files.
+ * Uses the repositories of the built-in Git extension when it is available and
+ * falls back to heuristics based on URIs and labels when it isn't.
  */
-export class GitDiffEditorService {
+export class GitDiffEditorService implements vscode.Disposable {
+    // Common Git-related schemes used by VS Code and extensions
+    private static readonly GIT_SCHEMES = [
+        'git',              // Standard Git scheme
+        'vscode-scm',       // VS Code SCM scheme  
+        'gitlens',          // GitLens extension scheme
+        'git-graph',        // Git Graph extension
+        'git-history',      // Git History extensions
+    ];
+
+    // Changes whose file no longer exists in the working tree
+    private static readonly DELETED_STATUSES = [
+        GitStatus.DELETED,
+        GitStatus.INDEX_DELETED,
+        GitStatus.DELETED_BY_US,
+        GitStatus.DELETED_BY_THEM,
+        GitStatus.BOTH_DELETED
+    ];
+
     private gitignoreService: GitignoreService;
 
-    constructor() {
+    constructor(private readonly gitRepositoryService: GitRepositoryService = new GitRepositoryService()) {
         this.gitignoreService = new GitignoreService();
     }
-    
+
     /**
-     * Close all Git-related editors (Working Tree, Index, diff editors, gitignored files, .git/ files)
-     * @returns The number of editors that were closed
+     * Check if a file is ignored by Git, asking the Git extension when possible
+     * @param uri The file to check
      */
-    public async closeAllGitDiffEditors(): Promise<number> {
-        const gitRelatedTabs = await this.findGitDiffTabs();
-        
-        if (gitRelatedTabs.length === 0) {
-            return 0;
+    public async isGitignored(uri: vscode.Uri): Promise<boolean> {
+        if (uri.scheme !== 'file') {
+            return false;
         }
 
-        // Close all identified Git-related tabs
-        await vscode.window.tabGroups.close(gitRelatedTabs, true);
-        
-        return gitRelatedTabs.length;
+        return await this.gitRepositoryService.isIgnored(uri) ?? this.gitignoreService.isIgnored(uri.fsPath);
     }
 
     /**
-     * Find all tabs that represent Git-related editors (diff editors, Index files, Working Tree files, gitignored files, .git/ files)
-     * @returns Array of tabs that are Git-related editors
+     * Find the files that are tracked in a repository and have no working tree or index changes
+     * @param uris The files to check
+     * @returns URIs (as strings) of the unmodified files, or undefined if the Git extension is not available
      */
-    private async findGitDiffTabs(): Promise<vscode.Tab[]> {
-        const gitRelatedTabs: vscode.Tab[] = [];
-
-        // Iterate through all tab groups and their tabs
-        for (const tabGroup of vscode.window.tabGroups.all) {
-            for (const tab of tabGroup.tabs) {
-                if (await this.isGitRelatedTab(tab)) {
-                    gitRelatedTabs.push(tab);
-                }
-            }
+    public async findUnmodifiedFiles(uris: vscode.Uri[]): Promise<Set<string> | undefined> {
+        const api = await this.gitRepositoryService.getApi();
+        if (!api) {
+            return undefined;
         }
 
-        return gitRelatedTabs;
+        const changedFiles = new Set(this.gitRepositoryService.getChanges(api).map(change => (change.renameUri ?? change.uri).toString()));
+        const candidates = uris.filter(uri => uri.scheme === 'file' && api.getRepository(uri) && !changedFiles.has(uri.toString()));
+
+        // Ignored files have no changes either, but they aren't part of the repository
+        const ignored = await Promise.all(candidates.map(uri => this.isGitignored(uri)));
+        return new Set(candidates.filter((_, index) => !ignored[index]).map(uri => uri.toString()));
     }
 
     /**
-     * Determine if a tab represents a Git-related file that should be closed
-     * @param tab The tab to check
-     * @returns True if the tab should be closed (Git diff, gitignored file, or .git/ file)
+     * Get the files with working tree or index changes in all open repositories, skipping deleted files
+     * @returns The files sorted by path, or undefined if the Git extension is not available
      */
-    private async isGitRelatedTab(tab: vscode.Tab): Promise<boolean> {
-        // First check if it's a traditional Git diff editor
-        if (this.isGitDiffEditor(tab)) {
-            return true;
+    public async getChangedFiles(): Promise<vscode.Uri[] | undefined> {
+        const api = await this.gitRepositoryService.getApi();
+        if (!api) {
+            return undefined;
         }
 
-        // Check if it's a regular file that should be closed (gitignored or .git/ file)
-        if (tab.input instanceof vscode.TabInputText) {
-            const uri = tab.input.uri;
-            
-            if (uri.scheme === 'file') {
-                const filePath = uri.fsPath;
-                
-                // Check if file is in .git/ directory
-                if (this.isInGitDirectory(filePath)) {
-                    return true;
-                }
-                
-                // Check if file is gitignored
-                if (await this.gitignoreService.isIgnored(filePath)) {
-                    return true;
-                }
+        const changedFiles = new Map<string, vscode.Uri>();
+        for (const change of this.gitRepositoryService.getChanges(api)) {
+            if (!GitDiffEditorService.DELETED_STATUSES.includes(change.status)) {
+                const uri = change.renameUri ?? change.uri;
+                changedFiles.set(uri.toString(), uri);
             }
         }
 
-        return false;
+        return [...changedFiles.values()].sort((a, b) => a.fsPath.localeCompare(b.fsPath));
     }
 
     /**
-     * Check if a file path is within a .git directory
-     */
-    private isInGitDirectory(filePath: string): boolean {
-        const normalizedPath = filePath.replace(/\\/g, '/');
-        return normalizedPath.includes('/.git/') || normalizedPath.endsWith('/.git');
-    }
-
-    /**
-     * Determine if a tab represents a Git diff editor or Git-related editor
+     * Classify a tab as a Git diff editor or Git-related editor
      * @param tab The tab to check
-     * @returns True if the tab is a Git diff editor or Git-related editor that should be closed
+     * @returns The rule that fired, or undefined if the tab is not a Git editor
      */
-    private isGitDiffEditor(tab: vscode.Tab): boolean {
+    public async classify(tab: vscode.Tab): Promise<GitEditorVerdict | undefined> {
+        const api = await this.gitRepositoryService.getApi();
+        if (api) {
+            return this.classifyWithRepositories(tab, api);
+        }
+
         // Check for actual diff editors (TabInputTextDiff)
         if (tab.input instanceof vscode.TabInputTextDiff) {
-            return this.isActualDiffEditor(tab);
+            return this.classifyDiffEditor(tab);
         }
 
         // Check for single-file Git editors (TabInputText with Git context)
         if (tab.input instanceof vscode.TabInputText) {
-            return this.isGitContextEditor(tab);
+            return this.classifyContextEditor(tab);
         }
 
-        return false;
+        return undefined;
+    }
+
+    /**
+     * Classify a tab using the repositories known to the Git extension: a tab is a Git editor
+     * if it shows the Index or a commit version of a repository file. Labels are not looked at.
+     * @returns The rule that fired, or undefined if the tab is not a Git editor
+     */
+    private classifyWithRepositories(tab: vscode.Tab, api: GitAPI): GitEditorVerdict | undefined {
+        const input = tab.input;
+        const sides: Array<[string, vscode.Uri]> = input instanceof vscode.TabInputTextDiff
+            ? [['original', input.original], ['modified', input.modified]]
+            : input instanceof vscode.TabInputText ? [['file', input.uri]] : [];
+
+        for (const [side, uri] of sides) {
+            const target = this.gitRepositoryService.resolveGitUri(api, uri);
+            if (target) {
+                const version = target.ref === '' || target.ref === '~' ? 'Index' : target.ref;
+                return {
+                    rule: 'gitRepository',
+                    detail: `${side} URI shows the ${version} version of ${vscode.workspace.asRelativePath(target.uri)}`
+                };
+            }
+
+            // Other Git tools keep their own URIs, which the Git extension doesn't know about
+            if (uri.scheme !== 'git' && GitDiffEditorService.GIT_SCHEMES.includes(uri.scheme)) {
+                return { rule: 'gitUriScheme', detail: `${side} URI has scheme "${uri.scheme}"` };
+            }
+        }
+
+        return undefined;
     }
 
     /**
      * Check if a TabInputTextDiff is a Git diff editor
+     * @returns The heuristic that fired, or undefined if it is not
      */
-    private isActualDiffEditor(tab: vscode.Tab): boolean {
+    private classifyDiffEditor(tab: vscode.Tab): GitEditorVerdict | undefined {
         const diffInput = tab.input as vscode.TabInputTextDiff;
 
         // For Git diff editors, we expect:
@@ -118,13 +152,10 @@ export class GitDiffEditorService {
         // 2. OR both URIs to point to the same file but different versions
         // 3. OR the label to indicate it's a Git diff
 
-        const isGitSchemeOriginal = this.isGitDiffUri(diffInput.original);
-        const isGitSchemeModified = this.isGitDiffUri(diffInput.modified);
-        const hasGitScheme = isGitSchemeOriginal || isGitSchemeModified;
-
         // Check if it's a Git diff by URI schemes
-        if (hasGitScheme) {
-            return true;
+        const uriVerdict = this.classifyUri(diffInput.original, 'original') ?? this.classifyUri(diffInput.modified, 'modified');
+        if (uriVerdict) {
+            return uriVerdict;
         }
 
         // Check if it's the same file being compared (typical for Git diffs)
@@ -133,21 +164,21 @@ export class GitDiffEditorService {
         const isSameFileDiff = originalPath === modifiedPath && diffInput.original.scheme !== diffInput.modified.scheme;
         
         if (isSameFileDiff) {
-            return true;
+            return {
+                rule: 'sameFileDiff',
+                detail: `both sides show ${modifiedPath} (${diffInput.original.scheme} ↔ ${diffInput.modified.scheme})`
+            };
         }
 
         // Check by label patterns as fallback
-        if (this.isGitDiffLabel(tab.label)) {
-            return true;
-        }
-
-        return false;
+        return this.classifyDiffLabel(tab.label);
     }
 
     /**
      * Check if a TabInputText is a Git context editor (like Index files)
+     * @returns The heuristic that fired, or undefined if it is not
      */
-    private isGitContextEditor(tab: vscode.Tab): boolean {
+    private classifyContextEditor(tab: vscode.Tab): GitEditorVerdict | undefined {
         const textInput = tab.input as vscode.TabInputText;
 
         // For single-file editors (TabInputText), we should be VERY specific
@@ -155,22 +186,23 @@ export class GitDiffEditorService {
         // DO NOT use URI scheme checking for regular files as they use normal 'file:' scheme
         
         // Only check for very specific Git-related label patterns
-        if (this.isGitSpecificLabel(tab.label)) {
-            return true;
+        const labelVerdict = this.classifyGitSpecificLabel(tab.label);
+        if (labelVerdict) {
+            return labelVerdict;
         }
 
         // Only check URI scheme if it's actually a Git-specific scheme (not 'file:')
-        if (textInput.uri.scheme !== 'file' && this.isGitDiffUri(textInput.uri)) {
-            return true;
+        if (textInput.uri.scheme !== 'file') {
+            return this.classifyUri(textInput.uri, 'file');
         }
 
-        return false;
+        return undefined;
     }
 
     /**
-     * Check if a label is specifically Git-related (more restrictive than isGitDiffLabel)
+     * Check if a label is specifically Git-related (more restrictive than classifyDiffLabel)
      */
-    private isGitSpecificLabel(label: string): boolean {
+    private classifyGitSpecificLabel(label: string): GitEditorVerdict | undefined {
         // Only match very specific Git context patterns for single files
         const gitSpecificPatterns = [
             /\(Index\)$/i,          // Must end with (Index)
@@ -179,59 +211,44 @@ export class GitDiffEditorService {
             /^Working Tree •/i,     // Starts with "Working Tree •"
         ];
         
-        return gitSpecificPatterns.some(pattern => pattern.test(label));
+        const pattern = gitSpecificPatterns.find(pattern => pattern.test(label));
+        return pattern ? { rule: 'gitLabel', detail: `label matches ${pattern}` } : undefined;
     }
 
     /**
      * Check if a URI represents a Git diff resource
      * @param uri The URI to check
-     * @returns True if the URI is from a Git diff
+     * @param side Which URI of the tab this is, used in the verdict
+     * @returns The heuristic that fired, or undefined if the URI is not from a Git diff
      */
-    private isGitDiffUri(uri: vscode.Uri): boolean {
-        // Common Git-related schemes used by VS Code and extensions
-        const gitSchemes = [
-            'git',              // Standard Git scheme
-            'vscode-scm',       // VS Code SCM scheme  
-            'gitlens',          // GitLens extension scheme
-            'git-graph',        // Git Graph extension
-            'git-history',      // Git History extensions
-        ];
-
+    private classifyUri(uri: vscode.Uri, side: string): GitEditorVerdict | undefined {
         // Check if URI uses a Git-related scheme
-        if (gitSchemes.includes(uri.scheme)) {
-            return true;
+        if (GitDiffEditorService.GIT_SCHEMES.includes(uri.scheme)) {
+            return { rule: 'gitUriScheme', detail: `${side} URI has scheme "${uri.scheme}"` };
         }
 
         // Check for Git-specific authorities or query parameters that indicate Git context
-        if (uri.authority && (
-            uri.authority.includes('git') || 
-            uri.authority.includes('scm') ||
-            uri.authority.includes('diff')
-        )) {
-            return true;
+        const authorityMarker = uri.authority ? ['git', 'scm', 'diff'].find(marker => uri.authority.includes(marker)) : undefined;
+        if (authorityMarker) {
+            return { rule: 'gitUriAuthority', detail: `${side} URI authority "${uri.authority}" contains "${authorityMarker}"` };
         }
 
         // Check query parameters for Git indicators
         const query = uri.query;
-        if (query && (
-            query.includes('git') ||
-            query.includes('scm') ||
-            query.includes('working') ||
-            query.includes('index') ||
-            query.includes('head')
-        )) {
-            return true;
+        const queryMarker = query ? ['git', 'scm', 'working', 'index', 'head'].find(marker => query.includes(marker)) : undefined;
+        if (queryMarker) {
+            return { rule: 'gitUriQuery', detail: `${side} URI query contains "${queryMarker}"` };
         }
 
-        return false;
+        return undefined;
     }
 
     /**
      * Check if a tab label indicates a Git diff editor
      * @param label The tab label to check
-     * @returns True if the label indicates a Git diff editor
+     * @returns The heuristic that fired, or undefined if the label doesn't indicate a Git diff editor
      */
-    private isGitDiffLabel(label: string): boolean {
+    private classifyDiffLabel(label: string): GitEditorVerdict | undefined {
         // VS Code Git diff editors typically have these patterns:
         const gitDiffLabels = [
             'Working Tree',
@@ -246,7 +263,7 @@ export class GitDiffEditorService {
         
         for (const pattern of gitDiffLabels) {
             if (label.toLowerCase().includes(pattern.toLowerCase())) {
-                return true;
+                return { rule: 'diffLabel', detail: `label contains "${pattern}"` };
             }
         }
         
@@ -266,19 +283,17 @@ export class GitDiffEditorService {
         
         for (const pattern of diffPatterns) {
             if (pattern.test(label)) {
-                return true;
+                return { rule: 'diffLabel', detail: `label matches ${pattern}` };
             }
         }
         
-        return false;
+        return undefined;
     }
 
     /**
-     * Get count of currently open Git-related editors
-     * @returns Number of open Git-related editors
+     * Stop watching ignore files
      */
-    public async getGitDiffEditorCount(): Promise<number> {
-        const tabs = await this.findGitDiffTabs();
-        return tabs.length;
+    public dispose(): void {
+        this.gitignoreService.dispose();
     }
 }
\ No newline at end of file
@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import { GitChangeKind } from '../types';
+import { GitAPI, GitChange, GitExtension, GitRepository, GitStatus } from '../types/git';
+import { Logger } from '../utils/logger';
+
+/**
+ * A `git:` URI resolved to the file and version it shows
+ */
+export interface GitUriTarget {
+    repository: GitRepository;
+    uri: vscode.Uri; // The file in the working tree
+    ref: string;     // '' or '~' for the index, otherwise a commit such as 'HEAD'
+}
+
+/**
+ * Service giving access to repository state through the built-in Git extension
+ */
+export class GitRepositoryService {
+    private static readonly GIT_EXTENSION_ID = 'vscode.git';
+
+    /**
+     * @param loadApi Loads the Git extension API, replaceable with a fake in tests
+     */
+    constructor(private readonly loadApi: () => Promise<GitAPI | undefined> = GitRepositoryService.loadGitExtensionApi) {}
+
+    /**
+     * Get the Git extension API, activating the extension if needed
+     * @returns The API, or undefined if the Git extension is missing or disabled
+     */
+    public getApi(): Promise<GitAPI | undefined> {
+        return this.loadApi();
+    }
+
+    /**
+     * Load the API of the built-in Git extension
+     */
+    private static async loadGitExtensionApi(): Promise<GitAPI | undefined> {
+        try {
+            const extension = vscode.extensions.getExtension<GitExtension>(GitRepositoryService.GIT_EXTENSION_ID);
+            if (!extension) {
+                return undefined;
+            }
+
+            const gitExtension = extension.isActive ? extension.exports : await extension.activate();
+            return gitExtension.enabled ? gitExtension.getAPI(1) : undefined;
+        } catch (error) {
+            Logger.debug('Git extension API is not available', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Get the change kind of every changed file in all open repositories
+     * @returns Map of file URI (as string) to its change kind; unchanged files are not included
+     */
+    public async getChangeKinds(): Promise<Map<string, GitChangeKind>> {
+        const changeKinds = new Map<string, GitChangeKind>();
+        const api = await this.getApi();
+        if (!api) {
+            return changeKinds;
+        }
+
+        // Later entries win, so list the changes from least to most important
+        for (const repository of api.repositories) {
+            const { mergeChanges, indexChanges, workingTreeChanges, untrackedChanges = [] } = repository.state;
+            for (const change of untrackedChanges) {
+                changeKinds.set(change.uri.toString(), 'untracked');
+            }
+            for (const change of indexChanges) {
+                changeKinds.set(change.uri.toString(), 'staged');
+            }
+            for (const change of workingTreeChanges) {
+                changeKinds.set(change.uri.toString(), change.status === GitStatus.UNTRACKED ? 'untracked' : 'modified');
+            }
+            for (const change of mergeChanges) {
+                changeKinds.set(change.uri.toString(), 'conflict');
+            }
+        }
+
+        return changeKinds;
+    }
+
+    /**
+     * Get the merge, index, working tree and untracked changes of all open repositories
+     * @param api The Git extension API
+     */
+    public getChanges(api: GitAPI): GitChange[] {
+        return api.repositories.flatMap(({ state }) => [
+            ...state.mergeChanges,
+            ...state.indexChanges,
+            ...state.workingTreeChanges,
+            ...(state.untrackedChanges ?? [])
+        ]);
+    }
+
+    /**
+     * Get the files renamed in the index (or marked for renaming) in all open repositories
+     * @returns Map of the original file URI (as string) to the new URI
+     */
+    public async getRenames(): Promise<Map<string, vscode.Uri>> {
+        const renames = new Map<string, vscode.Uri>();
+        const api = await this.getApi();
+        if (!api) {
+            return renames;
+        }
+
+        for (const change of this.getChanges(api)) {
+            if (change.status === GitStatus.INDEX_RENAMED || change.status === GitStatus.INTENT_TO_RENAME) {
+                renames.set(change.originalUri.toString(), change.renameUri ?? change.uri);
+            }
+        }
+
+        return renames;
+    }
+
+    /**
+     * Ask Git whether a file is ignored
+     * @returns Whether it is ignored, or undefined if Git can't tell (no API, file outside every repository)
+     */
+    public async isIgnored(uri: vscode.Uri): Promise<boolean | undefined> {
+        const repository = (await this.getApi())?.getRepository(uri);
+        if (!repository?.checkIgnore) {
+            return undefined;
+        }
+
+        try {
+            const ignored = await repository.checkIgnore([uri.fsPath]);
+            return ignored.has(uri.fsPath);
+        } catch (error) {
+            Logger.debug(`Git could not check whether ${uri.fsPath} is ignored`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Resolve a `git:` URI, as used by the Git extension for Index and HEAD versions of a file
+     * @param api The Git extension API
+     * @returns The repository, file and version, or undefined if the URI doesn't belong to an open repository
+     */
+    public resolveGitUri(api: GitAPI, uri: vscode.Uri): GitUriTarget | undefined {
+        if (uri.scheme !== 'git') {
+            return undefined;
+        }
+
+        // The query holds the file path and ref as JSON
+        let query: { path?: string, ref?: string } = {};
+        try {
+            query = JSON.parse(uri.query);
+        } catch {
+            // Not created by the Git extension, fall back to the URI path
+        }
+
+        const fileUri = vscode.Uri.file(query.path ?? uri.fsPath);
+        const repository = api.getRepository(fileUri);
+        return repository ? { repository, uri: fileUri, ref: query.ref ?? '' } : undefined;
+    }
+}
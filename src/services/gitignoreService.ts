@@ -1,13 +1,20 @@
 import * as vscode from 'vscode';
+import * as os from 'os';
 import * as path from 'path';
+import { GitignoreMatcher, GitignoreRule } from '../utils/gitignoreMatcher';
 import { Logger } from '../utils/logger';
 
 /**
- * Service for checking if files should be ignored based on .gitignore patterns
+ * Service for checking if files are ignored by Git. Follows Git's precedence: `.gitignore`
+ * files from the file's directory up to the repository root, then `.git/info/exclude`,
+ * then the file configured as `core.excludesFile`.
  */
-export class GitignoreService {
-    private gitignorePatterns: Map<string, string[]> = new Map(); // workspace folder -> patterns
+export class GitignoreService implements vscode.Disposable {
+    private ignoreFiles: Map<string, Promise<GitignoreRule[]>> = new Map(); // ignore file path -> rules
+    private repositoryRoots: Map<string, Promise<string | undefined>> = new Map(); // directory -> repository root
     private patternCache: Map<string, boolean> = new Map(); // file path -> isIgnored
+    private watchedFiles: Set<string> = new Set(); // Ignore and config files outside the .gitignore watcher
+    private disposables: vscode.Disposable[] = [];
 
     constructor() {
         // Watch for .gitignore file changes
@@ -27,26 +34,17 @@ export class GitignoreService {
                 return cached;
             }
 
-            // Find workspace folder for this file
-            const workspaceFolder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath));
-            if (!workspaceFolder) {
-                // No workspace folder found, don't ignore
+            // Outside a Git repository, the .gitignore of the workspace folder still applies
+            const root = await this.findRepositoryRoot(path.dirname(filePath))
+                ?? vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))?.uri.fsPath;
+            const relativePath = root ? path.relative(root, filePath).split(path.sep).join('/') : undefined;
+            if (!root || !relativePath || relativePath.startsWith('../')) {
                 this.patternCache.set(filePath, false);
                 return false;
             }
 
-            const workspacePath = workspaceFolder.uri.fsPath;
-            
-            // Load patterns for this workspace if not already loaded
-            if (!this.gitignorePatterns.has(workspacePath)) {
-                await this.loadGitignorePatterns(workspacePath);
-            }
-
-            const patterns = this.gitignorePatterns.get(workspacePath) || [];
-            const relativePath = path.relative(workspacePath, filePath);
-            
-            // Check if file matches any gitignore pattern
-            const isIgnored = this.matchesGitignorePattern(relativePath, patterns);
+            const matcher = await this.getMatcher(root, path.posix.dirname(relativePath));
+            const isIgnored = matcher.isIgnored(relativePath);
             
             // Cache result
             this.patternCache.set(filePath, isIgnored);
@@ -78,119 +76,157 @@ export class GitignoreService {
     }
 
     /**
-     * Load .gitignore patterns for a workspace folder
+     * Collect the rules that apply to files in a directory, from lowest to highest precedence
+     * @param root Repository root
+     * @param relativeDirectory Directory relative to the root ('.' for the root itself)
      */
-    private async loadGitignorePatterns(workspacePath: string): Promise<void> {
-        try {
-            const gitignoreUri = vscode.Uri.file(path.join(workspacePath, '.gitignore'));
-            
-            try {
-                const document = await vscode.workspace.openTextDocument(gitignoreUri);
-                const content = document.getText();
-                
-                const patterns = content
-                    .split(/\r?\n/)
-                    .map(line => line.trim())
-                    .filter(line => line.length > 0 && !line.startsWith('#'))
-                    .map(pattern => this.normalizeGitignorePattern(pattern));
-
-                this.gitignorePatterns.set(workspacePath, patterns);
-                
-                // Clear cache when patterns change
-                this.clearCacheForWorkspace(workspacePath);
-                
-                Logger.debug(`Loaded ${patterns.length} gitignore patterns for ${workspacePath}`);
-            } catch (error) {
-                // .gitignore file doesn't exist or can't be read
-                this.gitignorePatterns.set(workspacePath, []);
-                Logger.debug(`No .gitignore found for ${workspacePath}`, error);
+    private async getMatcher(root: string, relativeDirectory: string): Promise<GitignoreMatcher> {
+        const rules: GitignoreRule[] = [];
+
+        const gitDirectory = await this.findCommonGitDirectory(root);
+        if (gitDirectory) {
+            const excludesFile = await this.getExcludesFile(gitDirectory);
+            if (excludesFile) {
+                this.watchFile(excludesFile);
+                rules.push(...await this.readIgnoreFile(excludesFile, ''));
             }
-        } catch (error) {
-            Logger.error('Error loading gitignore patterns', error);
-            this.gitignorePatterns.set(workspacePath, []);
+            const infoExclude = path.join(gitDirectory, 'info', 'exclude');
+            this.watchFile(infoExclude);
+            rules.push(...await this.readIgnoreFile(infoExclude, ''));
         }
+
+        // Deeper .gitignore files take precedence over the ones above them
+        const directories = relativeDirectory === '.' ? [] : relativeDirectory.split('/');
+        for (let depth = 0; depth <= directories.length; depth++) {
+            const base = directories.slice(0, depth).join('/');
+            rules.push(...await this.readIgnoreFile(path.join(root, base, '.gitignore'), base));
+        }
+
+        return new GitignoreMatcher(rules);
     }
 
     /**
-     * Normalize a gitignore pattern for matching
+     * Read and parse an ignore file, a missing file has no rules
+     * @param filePath Absolute path of the ignore file
+     * @param base Directory of the file relative to the repository root
      */
-    private normalizeGitignorePattern(pattern: string): string {
-        // Remove leading slash
-        if (pattern.startsWith('/')) {
-            pattern = pattern.substring(1);
+    private readIgnoreFile(filePath: string, base: string): Promise<GitignoreRule[]> {
+        let rules = this.ignoreFiles.get(filePath);
+        if (!rules) {
+            rules = this.readFile(filePath).then(content => content !== undefined ? GitignoreMatcher.parse(content, base) : []);
+            this.ignoreFiles.set(filePath, rules);
         }
-        
-        // Convert to regex-friendly format
-        pattern = pattern
-            .replace(/\./g, '\\.')  // Escape dots
-            .replace(/\*/g, '.*')   // Convert * to .*
-            .replace(/\?/g, '.');   // Convert ? to .
-
-        return pattern;
+        return rules;
     }
 
     /**
-     * Check if a relative path matches any gitignore pattern
+     * Find the root of the Git repository containing a directory
+     * @returns The repository root, or undefined if the directory is not in a repository
      */
-    private matchesGitignorePattern(relativePath: string, patterns: string[]): boolean {
-        // Normalize path separators
-        const normalizedPath = relativePath.replace(/\\/g, '/');
-        
-        for (const pattern of patterns) {
-            try {
-                // Check exact match
-                if (pattern === normalizedPath) {
-                    return true;
+    private findRepositoryRoot(directory: string): Promise<string | undefined> {
+        let root = this.repositoryRoots.get(directory);
+        if (!root) {
+            root = (async () => {
+                if (await this.exists(path.join(directory, '.git'))) {
+                    return directory;
                 }
-                
-                // Check regex pattern match
-                const regex = new RegExp(`^${pattern}$`);
-                if (regex.test(normalizedPath)) {
-                    return true;
-                }
-                
-                // Check if it matches any parent directory
-                const pathParts = normalizedPath.split('/');
-                for (let i = 0; i < pathParts.length; i++) {
-                    const partialPath = pathParts.slice(0, i + 1).join('/');
-                    const partialRegex = new RegExp(`^${pattern}$`);
-                    if (partialRegex.test(partialPath)) {
-                        return true;
-                    }
-                }
-                
-                // Check directory pattern (pattern ending with /)
-                if (pattern.endsWith('/')) {
-                    const dirPattern = pattern.slice(0, -1);
-                    const dirRegex = new RegExp(`^${dirPattern}(/.*)?$`);
-                    if (dirRegex.test(normalizedPath)) {
-                        return true;
-                    }
-                }
-            } catch (error) {
-                // Invalid regex pattern, skip
-                Logger.debug(`Invalid gitignore pattern: ${pattern}`, error);
-                continue;
+                const parent = path.dirname(directory);
+                return parent !== directory ? this.findRepositoryRoot(parent) : undefined;
+            })();
+            this.repositoryRoots.set(directory, root);
+        }
+        return root;
+    }
+
+    /**
+     * Find the Git directory holding `info/exclude` and the repository config. In worktrees and
+     * submodules `.git` is a file pointing to the actual Git directory.
+     */
+    private async findCommonGitDirectory(root: string): Promise<string | undefined> {
+        let gitDirectory = path.join(root, '.git');
+
+        const gitFile = await this.readFile(gitDirectory);
+        if (gitFile !== undefined) {
+            const match = /^gitdir:\s*(.+)$/m.exec(gitFile);
+            if (!match) {
+                return undefined;
             }
+            gitDirectory = path.resolve(root, match[1].trim());
         }
-        
-        return false;
+
+        const commonDirectory = await this.readFile(path.join(gitDirectory, 'commondir'));
+        return commonDirectory !== undefined ? path.resolve(gitDirectory, commonDirectory.trim()) : gitDirectory;
     }
 
     /**
-     * Clear cache for a specific workspace
+     * Find the file configured as `core.excludesFile`, the repository config taking precedence over the global one
+     * @returns The absolute path, or undefined if there is none
      */
-    private clearCacheForWorkspace(workspacePath: string): void {
-        const keysToDelete: string[] = [];
-        
-        for (const [filePath] of this.patternCache) {
-            if (filePath.startsWith(workspacePath)) {
-                keysToDelete.push(filePath);
+    private async getExcludesFile(gitDirectory: string): Promise<string | undefined> {
+        const xdgConfigHome = process.env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+        const configFiles = [
+            path.join(gitDirectory, 'config'),
+            path.join(os.homedir(), '.gitconfig'),
+            path.join(xdgConfigHome, 'git', 'config')
+        ];
+
+        for (const configFile of configFiles) {
+            this.watchFile(configFile);
+            const content = await this.readFile(configFile);
+            const value = content !== undefined ? this.getCoreExcludesFile(content) : undefined;
+            if (value !== undefined) {
+                return value === '' ? undefined : value.replace(/^~(?=$|[\\/])/, os.homedir());
             }
         }
-        
-        for (const key of keysToDelete) {
-            this.patternCache.delete(key);
+
+        // Git's default when core.excludesFile is not set
+        return path.join(xdgConfigHome, 'git', 'ignore');
+    }
+
+    /**
+     * Read `core.excludesFile` from the content of a Git config file
+     */
+    private getCoreExcludesFile(content: string): string | undefined {
+        let inCore = false;
+        let value: string | undefined;
+
+        for (const line of content.split(/\r?\n/)) {
+            const section = /^\s*\[([^\]\s"]+)/.exec(line);
+            if (section) {
+                inCore = section[1].toLowerCase() === 'core';
+                continue;
+            }
+
+            const entry = /^\s*excludesfile\s*=\s*(.*?)\s*$/i.exec(line);
+            if (inCore && entry) {
+                value = entry[1].replace(/^"(.*)"$/, '$1'); // The last value wins
+            }
+        }
+        return value;
+    }
+
+    /**
+     * Read a text file
+     * @returns The content, or undefined if the file doesn't exist or is a directory
+     */
+    private async readFile(filePath: string): Promise<string | undefined> {
+        try {
+            const content = await vscode.workspace.fs.readFile(vscode.Uri.file(filePath));
+            return Buffer.from(content).toString('utf8');
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Check whether a file or directory exists
+     */
+    private async exists(filePath: string): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(vscode.Uri.file(filePath));
+            return true;
+        } catch {
+            return false;
         }
     }
 
@@ -198,19 +234,39 @@ export class GitignoreService {
      * Setup file system watcher for .gitignore files
      */
     private setupGitignoreWatcher(): void {
-        const watcher = vscode.workspace.createFileSystemWatcher('**/.gitignore');
-        
+        this.addWatcher(vscode.workspace.createFileSystemWatcher('**/.gitignore'));
+    }
+
+    /**
+     * Watch a single ignore or config file, such as `.git/info/exclude` or the global excludes file,
+     * which the `.gitignore` watcher doesn't cover and which may live outside the workspace
+     */
+    private watchFile(filePath: string): void {
+        if (this.watchedFiles.has(filePath)) {
+            return;
+        }
+
+        this.watchedFiles.add(filePath);
+        this.addWatcher(vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(path.dirname(filePath)), path.basename(filePath))
+        ));
+    }
+
+    /**
+     * Reload the rules of a watched file and forget cached results whenever it changes
+     */
+    private addWatcher(watcher: vscode.FileSystemWatcher): void {
         const reloadPatterns = (uri: vscode.Uri) => {
-            const workspaceFolder = vscode.workspace.getWorkspaceFolder(uri);
-            if (workspaceFolder) {
-                const workspacePath = workspaceFolder.uri.fsPath;
-                this.loadGitignorePatterns(workspacePath);
-            }
+            this.ignoreFiles.delete(uri.fsPath);
+            this.patternCache.clear();
         };
 
-        watcher.onDidCreate(reloadPatterns);
-        watcher.onDidChange(reloadPatterns);
-        watcher.onDidDelete(reloadPatterns);
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(reloadPatterns),
+            watcher.onDidChange(reloadPatterns),
+            watcher.onDidDelete(reloadPatterns)
+        );
     }
 
     /**
@@ -218,6 +274,16 @@ export class GitignoreService {
      */
     public clearCache(): void {
         this.patternCache.clear();
-        this.gitignorePatterns.clear();
+        this.ignoreFiles.clear();
+        this.repositoryRoots.clear();
+    }
+
+    /**
+     * Stop watching ignore files
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+        this.watchedFiles.clear();
     }
 }
\ No newline at end of file
@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import { MissingFileTab } from '../types';
+import { GitRepositoryService } from './gitRepositoryService';
+import { TabCleanupService } from './tabCleanupService';
+import { TabInputService } from './tabInputService';
+import { TabWorkspaceService } from './tabWorkspaceService';
+import { ConfigurationManager } from '../utils/configurationManager';
+import { Logger } from '../utils/logger';
+
+/**
+ * Missing file tab whose file Git knows the new path of
+ */
+type RenamedFileTab = MissingFileTab & { renamedTo: vscode.Uri };
+
+/**
+ * Service that finds tabs whose file was deleted or moved, and closes them or reopens them at their new path
+ */
+export class MissingFileTabService {
+    private static readonly AUTO_CLOSE_DELAY = 1000; // Debounce for deletions, a branch checkout deletes many files at once
+
+    private tabInputService = new TabInputService();
+    private autoCloseTimer?: ReturnType<typeof setTimeout>;
+    private isCleaningUp = false;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        private readonly workspaceService: TabWorkspaceService,
+        private readonly cleanupService: TabCleanupService,
+        private readonly gitRepositoryService: GitRepositoryService = new GitRepositoryService()
+    ) {
+        this.setupAutoClose(context);
+    }
+
+    /**
+     * Find the tabs whose file no longer exists. Diff tabs are left out, their sides often don't exist on disk.
+     */
+    public async findMissingFileTabs(): Promise<MissingFileTab[]> {
+        const candidates = this.workspaceService.getAllTabs()
+            .filter(tab => !(tab.input instanceof vscode.TabInputTextDiff || tab.input instanceof vscode.TabInputNotebookDiff))
+            .map(tab => ({ tab, uri: this.tabInputService.getTabUri(tab) }))
+            .filter((candidate): candidate is MissingFileTab => candidate.uri?.scheme === 'file');
+
+        const exists = await Promise.all(candidates.map(({ uri }) => this.exists(uri)));
+        const missing = candidates.filter((_, index) => !exists[index]);
+        if (missing.length === 0) {
+            return [];
+        }
+
+        const renames = await this.gitRepositoryService.getRenames();
+        return Promise.all(missing.map(async ({ tab, uri }) => {
+            const renamedTo = renames.get(uri.toString());
+            return { tab, uri, renamedTo: renamedTo && await this.exists(renamedTo) ? renamedTo : undefined };
+        }));
+    }
+
+    /**
+     * Close the tabs of deleted files, then offer to reopen files renamed in Git at their new path
+     * @param automatic Whether files were just deleted rather than the command being run: tabs with
+     * unsaved changes are left alone and the question about renamed files is not modal
+     * @returns The number of closed and reopened tabs
+     */
+    public async cleanUpMissingFileTabs(automatic: boolean): Promise<{closed: number, reopened: number}> {
+        this.isCleaningUp = true;
+        try {
+            const missing = (await this.findMissingFileTabs()).filter(({ tab }) => !(automatic && tab.isDirty));
+            const renamed = missing.filter((tab): tab is RenamedFileTab => tab.renamedTo !== undefined);
+
+            let closed = await this.closeTabs(missing.filter(({ renamedTo }) => !renamedTo), 'Close Tabs of Deleted Files');
+            if (renamed.length === 0) {
+                return { closed, reopened: 0 };
+            }
+
+            const choice = await vscode.window.showInformationMessage(
+                renamed.length === 1
+                    ? `"${renamed[0].tab.label}" was renamed to ${vscode.workspace.asRelativePath(renamed[0].renamedTo)}. Reopen it at the new path?`
+                    : `${renamed.length} open files were renamed. Reopen them at their new paths?`,
+                { modal: !automatic },
+                'Reopen at New Path',
+                'Close'
+            );
+
+            if (choice === 'Reopen at New Path') {
+                return { closed, reopened: await this.reopenAtNewPath(renamed) };
+            }
+            if (choice === 'Close') {
+                closed += await this.closeTabs(renamed, 'Close Tabs of Renamed Files');
+            }
+            return { closed, reopened: 0 };
+        } catch (error) {
+            Logger.error('Failed to clean up tabs of deleted files', error);
+            throw error;
+        } finally {
+            this.isCleaningUp = false;
+        }
+    }
+
+    /**
+     * Close the given tabs, asking what to do with unsaved ones first
+     */
+    private async closeTabs(missing: MissingFileTab[], operation: string): Promise<number> {
+        if (missing.length === 0) {
+            return 0;
+        }
+
+        const closedCount = await this.cleanupService.closeTabs(missing.map(({ tab }) => tab), operation);
+        Logger.info(`${operation}: closed ${closedCount} of ${missing.length} tabs`, missing.map(({ uri }) => uri.fsPath));
+        return closedCount;
+    }
+
+    /**
+     * Replace tabs of renamed files with tabs of the new paths in the same groups
+     * @returns The number of reopened tabs
+     */
+    private async reopenAtNewPath(renamed: RenamedFileTab[]): Promise<number> {
+        // Groups can disappear when their last tab closes, so remember where each tab was
+        const targets = renamed.map(({ tab, renamedTo }) => ({
+            tab,
+            renamedTo,
+            viewColumn: tab.group.viewColumn,
+            input: this.tabInputService.toWorkspaceInput(tab)
+        }));
+
+        await this.closeTabs(renamed, 'Reopen Renamed Files');
+
+        let reopenedCount = 0;
+        for (const { tab, renamedTo, viewColumn, input } of targets) {
+            // Tabs with unsaved changes may have been kept open
+            const isStillOpen = vscode.window.tabGroups.all.some(tabGroup => tabGroup.tabs.includes(tab));
+            if (!input || isStillOpen) {
+                continue;
+            }
+
+            const newInput = this.tabInputService.mapWorkspaceUris(input, () => this.tabInputService.toWorkspaceUri(renamedTo));
+            try {
+                await this.tabInputService.show(newInput, this.tabInputService.getDefaultLabel(newInput), { viewColumn, preview: false, preserveFocus: true });
+                reopenedCount++;
+            } catch (error) {
+                Logger.error(`Failed to reopen ${renamedTo.fsPath}`, error);
+            }
+        }
+
+        return reopenedCount;
+    }
+
+    /**
+     * Close tabs of deleted files shortly after files are deleted while `cleanx.autoCloseMissingFileTabs` is enabled
+     */
+    private setupAutoClose(context: vscode.ExtensionContext): void {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*', true, true, false);
+
+        context.subscriptions.push(
+            watcher,
+            watcher.onDidDelete(() => {
+                if (!ConfigurationManager.getConfig().autoCloseMissingFileTabs) {
+                    return;
+                }
+
+                if (this.autoCloseTimer) {
+                    clearTimeout(this.autoCloseTimer);
+                }
+                this.autoCloseTimer = setTimeout(() => void this.autoClose(), MissingFileTabService.AUTO_CLOSE_DELAY);
+            }),
+            { dispose: () => clearTimeout(this.autoCloseTimer) }
+        );
+    }
+
+    /**
+     * Clean up after deletions, unless a clean up is still waiting for an answer
+     */
+    private async autoClose(): Promise<void> {
+        this.autoCloseTimer = undefined;
+        if (this.isCleaningUp) {
+            return;
+        }
+
+        try {
+            await this.cleanUpMissingFileTabs(true);
+        } catch (error) {
+            Logger.error('Failed to close tabs of deleted files automatically', error);
+        }
+    }
+
+    /**
+     * Check whether a file exists
+     */
+    private async exists(uri: vscode.Uri): Promise<boolean> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+}
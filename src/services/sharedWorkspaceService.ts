@@ -0,0 +1,333 @@
+import * as vscode from 'vscode';
+import { EditorGroupLayout, EditorGroupLayoutEntry, EditorViewState, SerializedPosition, SharedTabWorkspace, SharedTabWorkspaceFile, TabWorkspace, TabWorkspaceGroup, TabWorkspaceInput, TabWorkspaceTab, TabWorkspaceUri } from '../types';
+import { TabInputService } from './tabInputService';
+import { Logger } from '../utils/logger';
+
+/**
+ * A shared workspace together with the workspace folder whose file defines it
+ */
+interface SharedWorkspaceEntry {
+    workspace: SharedTabWorkspace;
+    folder: vscode.WorkspaceFolder;
+    modified: Date;
+}
+
+/**
+ * Service for tab workspaces shared through a committed `.cleanx/workspaces.json` file in each workspace folder
+ */
+export class SharedWorkspaceService implements vscode.Disposable {
+    public static readonly SCOPE = 'shared';
+    public static readonly FILE_PATH = '.cleanx/workspaces.json';
+    public static readonly FILE_VERSION = 1;
+
+    private entries: SharedWorkspaceEntry[] = [];
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly tabInputService: TabInputService) {
+        this.setupFileWatcher();
+        void this.reload();
+    }
+
+    /**
+     * Get all shared workspaces of the open workspace folders (raw file format)
+     */
+    public getWorkspaces(): Array<{ workspace: SharedTabWorkspace; modified: Date }> {
+        return this.entries.map(entry => ({ workspace: entry.workspace, modified: entry.modified }));
+    }
+
+    /**
+     * Get the URI of the shared workspaces file of a workspace folder
+     */
+    public getFileUri(folder: vscode.WorkspaceFolder): vscode.Uri {
+        return vscode.Uri.joinPath(folder.uri, SharedWorkspaceService.FILE_PATH);
+    }
+
+    /**
+     * Re-read the shared workspace files of all open workspace folders
+     */
+    public async reload(): Promise<void> {
+        const entries: SharedWorkspaceEntry[] = [];
+
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const uri = this.getFileUri(folder);
+            let stat: vscode.FileStat;
+            try {
+                stat = await vscode.workspace.fs.stat(uri);
+            } catch {
+                continue; // No shared workspaces file in this folder
+            }
+
+            try {
+                const workspaces = await this.readFile(uri, folder);
+                entries.push(...workspaces.map(workspace => ({ workspace, folder, modified: new Date(stat.mtime) })));
+            } catch (error) {
+                const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+                Logger.error(`Failed to read shared tab workspaces from ${uri.fsPath}`, error);
+                vscode.window.showWarningMessage(`Shared tab workspaces in ${vscode.workspace.asRelativePath(uri)} could not be read: ${errorMessage}`);
+            }
+        }
+
+        this.entries = entries;
+        Logger.debug(`Loaded ${entries.length} shared tab workspaces`);
+    }
+
+    /**
+     * Read workspaces from a shared workspaces file
+     * @param uri File to read
+     * @param folder Folder the file belongs to. Relative paths of folders that are not open are resolved against it.
+     * @returns The valid workspaces of the file, without their invalid groups and tabs
+     */
+    public async readFile(uri: vscode.Uri, folder?: vscode.WorkspaceFolder): Promise<SharedTabWorkspace[]> {
+        const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        const file = JSON.parse(content) as Partial<SharedTabWorkspaceFile>;
+
+        if (typeof file.version !== 'number' || file.version > SharedWorkspaceService.FILE_VERSION) {
+            throw new Error(`Unsupported workspaces file version in ${uri.fsPath}`);
+        }
+
+        const workspaces = (Array.isArray(file.workspaces) ? file.workspaces : [])
+            .map(workspace => this.validateWorkspace(workspace, uri))
+            .filter((workspace): workspace is SharedTabWorkspace => workspace !== undefined);
+
+        return folder ? workspaces.map(workspace => this.rebaseFolders(workspace, folder)) : workspaces;
+    }
+
+    /**
+     * Add or replace workspaces in the shared file of a workspace folder
+     */
+    public async saveWorkspaces(folder: vscode.WorkspaceFolder, workspaces: TabWorkspace[]): Promise<void> {
+        const uri = this.getFileUri(folder);
+        const existing = await this.readFileIfExists(uri);
+        const names = new Set(workspaces.map(workspace => workspace.name));
+
+        await this.writeFile(uri, [
+            ...existing.filter(workspace => !names.has(workspace.name)),
+            ...workspaces.map(workspace => this.toSharedWorkspace(workspace))
+        ]);
+    }
+
+    /**
+     * Remove a workspace from the shared file that defines it
+     */
+    public async removeWorkspace(name: string): Promise<void> {
+        const folder = this.getDefiningFolder(name);
+        const uri = this.getFileUri(folder);
+        const existing = await this.readFileIfExists(uri);
+
+        await this.writeFile(uri, existing.filter(workspace => workspace.name !== name));
+    }
+
+    /**
+     * Rename a workspace in the shared file that defines it
+     */
+    public async renameWorkspace(oldName: string, newName: string): Promise<void> {
+        const folder = this.getDefiningFolder(oldName);
+        const uri = this.getFileUri(folder);
+        const existing = await this.readFileIfExists(uri);
+
+        await this.writeFile(uri, existing.map(workspace => workspace.name === oldName
+            ? { ...workspace, name: newName, lastModified: new Date().toISOString() }
+            : workspace));
+    }
+
+    /**
+     * Get the folder for writing a shared workspace: the folder already defining it, else the first folder
+     */
+    public getDefiningFolder(name?: string): vscode.WorkspaceFolder {
+        const entry = this.entries.find(e => e.workspace.name === name);
+        const folder = entry?.folder ?? vscode.workspace.workspaceFolders?.[0];
+
+        if (!folder) {
+            throw new Error('Shared workspaces require an open workspace folder');
+        }
+
+        return folder;
+    }
+
+    /**
+     * Check a workspace entry of a hand-edited file, dropping the groups, tabs, layout and view states that can't be restored
+     * @returns The workspace with its valid parts, or undefined if the entry itself is invalid
+     */
+    private validateWorkspace(workspace: SharedTabWorkspace, uri: vscode.Uri): SharedTabWorkspace | undefined {
+        if (typeof workspace?.name !== 'string' || !Array.isArray(workspace.groups)) {
+            Logger.error(`Skipping invalid workspace entry in ${uri.fsPath}`, workspace);
+            return undefined;
+        }
+
+        const groups = workspace.groups.filter((group: TabWorkspaceGroup | null) => {
+            const isValid = typeof group === 'object' && group !== null
+                && typeof group.viewColumn === 'number' && Array.isArray(group.tabs);
+            if (!isValid) {
+                Logger.error(`Skipping invalid group of workspace "${workspace.name}" in ${uri.fsPath}`, group);
+            }
+            return isValid;
+        });
+
+        const { layout, ...rest } = workspace;
+        const isValidLayout = layout === undefined || this.isValidLayout(layout);
+        if (!isValidLayout) {
+            Logger.error(`Skipping invalid layout of workspace "${workspace.name}" in ${uri.fsPath}`, layout);
+        }
+
+        return {
+            ...rest,
+            ...(isValidLayout && layout !== undefined ? { layout } : {}),
+            groups: groups.map(group => ({
+                ...group,
+                tabs: group.tabs
+                    .filter((tab: TabWorkspaceTab | null) => {
+                        const isValid = typeof tab === 'object' && tab !== null && this.isValidInput(tab.input);
+                        if (!isValid) {
+                            Logger.error(`Skipping invalid tab of workspace "${workspace.name}" in ${uri.fsPath}`, tab);
+                        }
+                        return isValid;
+                    })
+                    .map(tab => {
+                        if (tab.viewState === undefined || this.isValidViewState(tab.viewState)) {
+                            return tab;
+                        }
+
+                        Logger.error(`Skipping invalid view state of tab "${tab.label}" in ${uri.fsPath}`, tab.viewState);
+                        const { viewState, ...tabWithoutViewState } = tab;
+                        return tabWithoutViewState;
+                    })
+            }))
+        };
+    }
+
+    /**
+     * Check that a stored editor layout has an orientation and (possibly nested) group entries
+     */
+    private isValidLayout(layout: EditorGroupLayout | null): boolean {
+        const isValidEntry = (entry: EditorGroupLayoutEntry | null): boolean =>
+            typeof entry === 'object' && entry !== null
+                && (entry.size === undefined || typeof entry.size === 'number')
+                && (entry.groups === undefined || (Array.isArray(entry.groups) && entry.groups.every(isValidEntry)));
+
+        return typeof layout === 'object' && layout !== null && typeof layout.orientation === 'number'
+            && Array.isArray(layout.groups) && layout.groups.every(isValidEntry);
+    }
+
+    /**
+     * Check that a stored view state only holds selections and ranges of valid positions
+     */
+    private isValidViewState(viewState: EditorViewState | null): boolean {
+        const isValidPosition = (position: SerializedPosition | null | undefined) =>
+            typeof position === 'object' && position !== null
+                && Number.isInteger(position.line) && Number.isInteger(position.character);
+
+        return typeof viewState === 'object' && viewState !== null
+            && Array.isArray(viewState.selections) && viewState.selections.every(selection =>
+                typeof selection === 'object' && selection !== null
+                    && isValidPosition(selection.anchor) && isValidPosition(selection.active))
+            && Array.isArray(viewState.visibleRanges) && viewState.visibleRanges.every(range =>
+                typeof range === 'object' && range !== null
+                    && isValidPosition(range.start) && isValidPosition(range.end));
+    }
+
+    /**
+     * Check that a stored tab input has a known kind and every location its kind needs
+     */
+    private isValidInput(input: TabWorkspaceInput | null | undefined): boolean {
+        const isValidUri = (workspaceUri: TabWorkspaceUri | null | undefined) =>
+            typeof workspaceUri === 'object' && workspaceUri !== null && ('uri' in workspaceUri
+                ? typeof workspaceUri.uri === 'string'
+                : typeof workspaceUri.folder === 'string' && typeof workspaceUri.path === 'string');
+
+        switch (input?.kind) {
+            case 'text':
+            case 'custom':
+            case 'notebook':
+                return isValidUri(input.uri);
+            case 'textDiff':
+            case 'notebookDiff':
+                return isValidUri(input.original) && isValidUri(input.modified);
+            case 'webview':
+            case 'terminal':
+                return true;
+            default:
+                return false;
+        }
+    }
+
+    /**
+     * Convert a workspace to the shared file format
+     */
+    private toSharedWorkspace(workspace: TabWorkspace): SharedTabWorkspace {
+        const { scope, createdAt, lastModified, ...rest } = workspace;
+        return {
+            ...rest,
+            createdAt: new Date(createdAt).toISOString(),
+            lastModified: new Date(lastModified).toISOString()
+        };
+    }
+
+    /**
+     * Point folder-relative paths whose folder is not open at the folder containing the file,
+     * so a teammate's differently named clone still resolves
+     */
+    private rebaseFolders(workspace: SharedTabWorkspace, folder: vscode.WorkspaceFolder): SharedTabWorkspace {
+        const openFolders = new Set((vscode.workspace.workspaceFolders ?? []).map(f => f.name));
+        const rebase = (workspaceUri: TabWorkspaceUri): TabWorkspaceUri =>
+            'folder' in workspaceUri && !openFolders.has(workspaceUri.folder)
+                ? { ...workspaceUri, folder: folder.name }
+                : workspaceUri;
+
+        return {
+            ...workspace,
+            groups: workspace.groups.map(group => ({
+                ...group,
+                tabs: group.tabs.map(tab => ({
+                    ...tab,
+                    input: this.tabInputService.mapWorkspaceUris(tab.input, rebase)
+                }))
+            }))
+        };
+    }
+
+    private async readFileIfExists(uri: vscode.Uri): Promise<SharedTabWorkspace[]> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+        } catch {
+            return [];
+        }
+        return this.readFile(uri);
+    }
+
+    private async writeFile(uri: vscode.Uri, workspaces: SharedTabWorkspace[]): Promise<void> {
+        const file: SharedTabWorkspaceFile = {
+            version: SharedWorkspaceService.FILE_VERSION,
+            workspaces
+        };
+
+        await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(uri, '..'));
+        await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(`${JSON.stringify(file, null, 2)}\n`));
+        await this.reload();
+
+        Logger.info(`Wrote ${workspaces.length} shared workspaces to ${uri.fsPath}`);
+    }
+
+    /**
+     * Reload shared workspaces when a workspaces file or the set of folders changes
+     */
+    private setupFileWatcher(): void {
+        const watcher = vscode.workspace.createFileSystemWatcher(`**/${SharedWorkspaceService.FILE_PATH}`);
+        const reload = () => void this.reload();
+
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(reload),
+            watcher.onDidChange(reload),
+            watcher.onDidDelete(reload),
+            vscode.workspace.onDidChangeWorkspaceFolders(reload)
+        );
+    }
+
+    /**
+     * Stop watching shared workspace files
+     */
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
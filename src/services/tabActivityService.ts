@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import { TabInputService } from './tabInputService';
+import { TabEvents } from '../utils/tabEvents';
+
+/**
+ * The parts of `vscode.window.tabGroups` the service listens to, replaceable with a fake in tests
+ */
+export type TabActivitySource = Pick<vscode.TabGroups, 'activeTabGroup' | 'onDidChangeTabs' | 'onDidChangeTabGroups'>;
+
+/**
+ * Service that remembers when each tab was last focused
+ */
+export class TabActivityService implements vscode.Disposable {
+    private lastFocused: Map<string, number> = new Map(); // tab key -> timestamp
+    private disposables: vscode.Disposable[] = [];
+    public readonly startedAt = Date.now(); // Tabs open before this were not tracked
+
+    constructor(
+        private readonly tabInputService: TabInputService,
+        private readonly tabGroups: TabActivitySource = vscode.window.tabGroups
+    ) {
+        this.setupTabWatcher();
+    }
+
+    /**
+     * Get the time a tab was last focused
+     * @returns Milliseconds since the epoch, or undefined if the tab wasn't focused since activation
+     */
+    public getLastFocused(tab: vscode.Tab): number | undefined {
+        return this.lastFocused.get(this.getTabKey(tab));
+    }
+
+    /**
+     * Record the active tab of the active group whenever the user changes tabs
+     */
+    private setupTabWatcher(): void {
+        const recordActiveTab = () => {
+            // Sorting, loading workspaces and undo focus every tab they move, which is no visit
+            if (TabEvents.isOwnChange()) {
+                return;
+            }
+
+            const activeTab = this.tabGroups.activeTabGroup.activeTab;
+            if (activeTab) {
+                this.lastFocused.set(this.getTabKey(activeTab), Date.now());
+            }
+        };
+
+        recordActiveTab();
+        this.disposables.push(
+            this.tabGroups.onDidChangeTabs(recordActiveTab),
+            this.tabGroups.onDidChangeTabGroups(recordActiveTab)
+        );
+    }
+
+    /**
+     * Identify a tab by its group and input (its label for inputs without a URI)
+     */
+    private getTabKey(tab: vscode.Tab): string {
+        const uri = this.tabInputService.getTabUri(tab);
+        return `${tab.group.viewColumn}:${uri ? uri.toString() : tab.label}`;
+    }
+
+    public dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.disposables = [];
+    }
+}
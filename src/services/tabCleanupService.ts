@@ -0,0 +1,272 @@
+import * as vscode from 'vscode';
+import { GitEditorVerdict, TabCloseMatch, TabCloseRule, TabCloseVerdict } from '../types';
+import { GitDiffEditorService } from './gitDiffEditorService';
+import { TabActivityService } from './tabActivityService';
+import { TabInputService } from './tabInputService';
+import { TabOperationJournalService } from './tabOperationJournalService';
+import { UnsavedTabGuardService } from './unsavedTabGuardService';
+import { Logger } from '../utils/logger';
+import { GlobMatcher } from '../utils/globMatcher';
+
+/**
+ * Close rule with its label pattern compiled
+ */
+interface CompiledCloseRule {
+    rule: TabCloseRule;
+    index: number; // Position in the configured rules
+    label?: RegExp;
+}
+
+/**
+ * The parts of `vscode.window.tabGroups` the service finds and closes tabs through, replaceable with a fake in tests
+ */
+export type TabCleanupSource = Pick<vscode.TabGroups, 'all' | 'close'>;
+
+/**
+ * Service that decides which tabs to close based on close rules, and closes them
+ */
+export class TabCleanupService {
+    private tabInputService: TabInputService;
+    private unsavedTabGuard: UnsavedTabGuardService;
+
+    constructor(
+        private readonly gitDiffService: GitDiffEditorService,
+        private readonly activityService: TabActivityService,
+        private readonly journal: TabOperationJournalService,
+        private readonly tabGroups: TabCleanupSource = vscode.window.tabGroups
+    ) {
+        this.tabInputService = new TabInputService();
+        this.unsavedTabGuard = new UnsavedTabGuardService();
+    }
+
+    /**
+     * Close tabs, asking what to do with unsaved ones first
+     * @param tabs The tabs to close
+     * @param operation Name of the operation, shown for unsaved tabs and recorded for undo
+     * @returns The number of tabs that were closed
+     */
+    public async closeTabs(tabs: vscode.Tab[], operation: string): Promise<number> {
+        const closableTabs = await this.unsavedTabGuard.getClosableTabs(tabs, operation);
+
+        if (!closableTabs || closableTabs.length === 0) {
+            return 0;
+        }
+
+        await this.journal.record(operation);
+        await this.tabGroups.close(closableTabs, true);
+
+        return closableTabs.length;
+    }
+
+    /**
+     * Find all open tabs the rules select
+     * @param rules Close rules, the first matching rule decides
+     */
+    public async findTabsToClose(rules: TabCloseRule[]): Promise<TabCloseMatch[]> {
+        const tabs = this.tabGroups.all.flatMap(tabGroup => tabGroup.tabs);
+        const verdicts = await this.classifyTabs(tabs, rules);
+
+        return tabs
+            .map((tab, index) => ({ tab, verdict: verdicts[index] }))
+            .filter(({ verdict }) => verdict.close);
+    }
+
+    /**
+     * Find the file tabs whose file is tracked by Git and has no working tree or index changes
+     * @param keepPinned Leave pinned tabs open
+     * @param keepDirty Leave tabs with unsaved changes open
+     * @returns The unmodified tabs, or undefined if the Git extension is not available
+     */
+    public async findUnmodifiedTabs(keepPinned: boolean, keepDirty: boolean): Promise<TabCloseMatch[] | undefined> {
+        const tabs = this.tabGroups.all
+            .flatMap(tabGroup => tabGroup.tabs)
+            .filter(tab => tab.input instanceof vscode.TabInputText && tab.input.uri.scheme === 'file')
+            .filter(tab => !(keepPinned && tab.isPinned) && !(keepDirty && tab.isDirty));
+
+        const uris = tabs.map(tab => (tab.input as vscode.TabInputText).uri);
+        const unmodified = await this.gitDiffService.findUnmodifiedFiles(uris);
+        if (!unmodified) {
+            return undefined;
+        }
+
+        return tabs
+            .filter((_, index) => unmodified.has(uris[index].toString()))
+            .map(tab => ({ tab, verdict: { close: true, reason: 'No working tree or index changes' } }));
+    }
+
+    /**
+     * Decide whether the rules close a tab, and why
+     * @param tabs The tabs to classify
+     * @param rules Close rules, the first matching rule decides
+     * @returns One verdict per tab
+     */
+    public async classifyTabs(tabs: readonly vscode.Tab[], rules: TabCloseRule[]): Promise<TabCloseVerdict[]> {
+        const compiled = this.compileRules(rules);
+        return Promise.all(tabs.map(tab => this.classify(tab, compiled)));
+    }
+
+    /**
+     * Let the user review the selected tabs and uncheck the ones to keep open
+     * @param matches Tabs selected by close rules
+     * @param title Title of the quick pick
+     * @returns The checked tabs, or undefined if cancelled
+     */
+    public async pickTabsToClose(matches: TabCloseMatch[], title: string): Promise<vscode.Tab[] | undefined> {
+        const items: Array<vscode.QuickPickItem & { tab: vscode.Tab }> = matches.map(({ tab, verdict }) => {
+            const uri = this.tabInputService.getTabUri(tab);
+            return {
+                label: tab.label,
+                description: `Group ${tab.group.viewColumn}${uri ? ` · ${vscode.workspace.asRelativePath(uri)}` : ''}`,
+                detail: verdict.reason,
+                picked: true,
+                tab
+            };
+        });
+
+        const selected = await vscode.window.showQuickPick(items, {
+            title,
+            placeHolder: 'Uncheck tabs to keep them open',
+            canPickMany: true,
+            matchOnDescription: true,
+            matchOnDetail: true
+        });
+
+        return selected?.map(item => item.tab);
+    }
+
+    /**
+     * Apply the first rule that matches a tab
+     */
+    private async classify(tab: vscode.Tab, rules: CompiledCloseRule[]): Promise<TabCloseVerdict> {
+        for (const { rule, label, index } of rules) {
+            const match = await this.matchRule(tab, rule, label);
+            if (match) {
+                const name = rule.name ?? this.describeRule(rule);
+                return {
+                    close: rule.action === 'include',
+                    ruleIndex: index,
+                    rule,
+                    gitEditor: match.gitEditor,
+                    reason: match.gitEditor ? `${name}: ${match.gitEditor.detail}` : name
+                };
+            }
+        }
+        return { close: false, reason: 'No rule matched' };
+    }
+
+    /**
+     * Check whether a tab meets every criterion of a rule. Rules without criteria match nothing.
+     * @returns The Git editor verdict if a `gitEditor` criterion matched one, or undefined if the rule doesn't match
+     */
+    private async matchRule(tab: vscode.Tab, rule: TabCloseRule, label?: RegExp): Promise<{ gitEditor?: GitEditorVerdict } | undefined> {
+        const uri = this.tabInputService.getTabUri(tab);
+        const uris = this.getTabUris(tab);
+
+        let gitEditor: GitEditorVerdict | undefined;
+        const checks: Array<() => boolean | Promise<boolean>> = [];
+        if (rule.scheme !== undefined) {
+            checks.push(() => uris.some(tabUri => tabUri.scheme === rule.scheme));
+        }
+        if (rule.glob !== undefined) {
+            const glob = rule.glob;
+            checks.push(() => uri !== undefined && GlobMatcher.matches(glob, vscode.workspace.asRelativePath(uri, false)));
+        }
+        if (label !== undefined) {
+            checks.push(() => label.test(tab.label));
+        }
+        if (rule.inputType !== undefined) {
+            checks.push(() => this.tabInputService.toWorkspaceInput(tab)?.kind === rule.inputType);
+        }
+        if (rule.isDirty !== undefined) {
+            checks.push(() => tab.isDirty === rule.isDirty);
+        }
+        if (rule.isPinned !== undefined) {
+            checks.push(() => tab.isPinned === rule.isPinned);
+        }
+        if (rule.languageId !== undefined) {
+            checks.push(() => this.getLanguageId(uri) === rule.languageId);
+        }
+        if (rule.notVisitedFor !== undefined) {
+            const notVisitedFor = rule.notVisitedFor;
+            checks.push(() => this.getMinutesSinceVisited(tab) >= notVisitedFor);
+        }
+        if (rule.gitEditor !== undefined) {
+            checks.push(async () => {
+                gitEditor = await this.gitDiffService.classify(tab);
+                return (gitEditor !== undefined) === rule.gitEditor;
+            });
+        }
+        if (rule.gitignored !== undefined) {
+            checks.push(async () => uri !== undefined && await this.gitDiffService.isGitignored(uri) === rule.gitignored);
+        }
+
+        if (checks.length === 0) {
+            return undefined;
+        }
+
+        // Cheap checks come first, so gitignore lookups only run for tabs that passed the rest
+        for (const check of checks) {
+            if (!(await check())) {
+                return undefined;
+            }
+        }
+        return { gitEditor };
+    }
+
+    /**
+     * Summarize the criteria of an unnamed rule, e.g. `glob *.log, isPinned false`
+     */
+    private describeRule(rule: TabCloseRule): string {
+        return Object.entries(rule)
+            .filter(([key]) => key !== 'action' && key !== 'name')
+            .map(([key, value]) => `${key} ${value}`)
+            .join(', ');
+    }
+
+    /**
+     * Compile the label patterns of close rules, dropping rules with invalid patterns
+     */
+    private compileRules(rules: TabCloseRule[]): CompiledCloseRule[] {
+        const compiled: CompiledCloseRule[] = [];
+        for (const [index, rule] of rules.entries()) {
+            try {
+                compiled.push({ rule, index, label: rule.label !== undefined ? new RegExp(rule.label) : undefined });
+            } catch (error) {
+                Logger.error(`Invalid regular expression in close rule: ${rule.label}`, error);
+            }
+        }
+        return compiled;
+    }
+
+    /**
+     * Get every URI a tab shows (both sides for diffs)
+     */
+    private getTabUris(tab: vscode.Tab): vscode.Uri[] {
+        const input = tab.input;
+        if (input instanceof vscode.TabInputTextDiff || input instanceof vscode.TabInputNotebookDiff) {
+            return [input.original, input.modified];
+        }
+
+        const uri = this.tabInputService.getTabUri(tab);
+        return uri ? [uri] : [];
+    }
+
+    /**
+     * Get the language of an open text document
+     */
+    private getLanguageId(uri: vscode.Uri | undefined): string | undefined {
+        return uri && vscode.workspace.textDocuments.find(document => document.uri.toString() === uri.toString())?.languageId;
+    }
+
+    /**
+     * Minutes since a tab was last focused; tabs not focused since activation count from activation
+     */
+    private getMinutesSinceVisited(tab: vscode.Tab): number {
+        if (tab.isActive) {
+            return 0; // Visible in its group
+        }
+
+        const lastFocused = this.activityService.getLastFocused(tab) ?? this.activityService.startedAt;
+        return (Date.now() - lastFocused) / 60000;
+    }
+}
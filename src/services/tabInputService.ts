@@ -0,0 +1,302 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TabWorkspaceInput, TabWorkspaceUri, TabInputShowOptions } from '../types';
+import { Logger } from '../utils/logger';
+
+/**
+ * The parts of `vscode.workspace` used to resolve folder-relative locations, replaceable with a fake in tests
+ */
+export type WorkspaceFolderSource = Pick<typeof vscode.workspace, 'workspaceFolders' | 'getWorkspaceFolder'>;
+
+/**
+ * Service that converts VS Code tab inputs to the serializable workspace model and reopens them
+ */
+export class TabInputService {
+    constructor(private readonly folders: WorkspaceFolderSource = vscode.workspace) {}
+
+    /**
+     * Convert the input of an open tab into its serializable form
+     * @returns The workspace input, or undefined for unknown input kinds
+     */
+    public toWorkspaceInput(tab: vscode.Tab): TabWorkspaceInput | undefined {
+        const input = tab.input;
+
+        if (input instanceof vscode.TabInputText) {
+            return { kind: 'text', uri: this.toWorkspaceUri(input.uri) };
+        }
+        if (input instanceof vscode.TabInputTextDiff) {
+            return { kind: 'textDiff', original: this.toWorkspaceUri(input.original), modified: this.toWorkspaceUri(input.modified) };
+        }
+        if (input instanceof vscode.TabInputCustom) {
+            return { kind: 'custom', uri: this.toWorkspaceUri(input.uri), viewType: input.viewType };
+        }
+        if (input instanceof vscode.TabInputNotebook) {
+            return { kind: 'notebook', uri: this.toWorkspaceUri(input.uri), notebookType: input.notebookType };
+        }
+        if (input instanceof vscode.TabInputNotebookDiff) {
+            return {
+                kind: 'notebookDiff',
+                original: this.toWorkspaceUri(input.original),
+                modified: this.toWorkspaceUri(input.modified),
+                notebookType: input.notebookType
+            };
+        }
+        if (input instanceof vscode.TabInputWebview) {
+            return { kind: 'webview', viewType: input.viewType };
+        }
+        if (input instanceof vscode.TabInputTerminal) {
+            return { kind: 'terminal' };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Get the URI of the file shown in a tab (the modified side for diffs)
+     * @returns The URI, or undefined for tabs that don't show a file
+     */
+    public getTabUri(tab: vscode.Tab): vscode.Uri | undefined {
+        const input = tab.input;
+
+        if (input instanceof vscode.TabInputText
+            || input instanceof vscode.TabInputCustom
+            || input instanceof vscode.TabInputNotebook) {
+            return input.uri;
+        }
+        if (input instanceof vscode.TabInputTextDiff || input instanceof vscode.TabInputNotebookDiff) {
+            return input.modified;
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Store a URI relative to its workspace folder, or as an absolute URI if it is outside every folder
+     */
+    public toWorkspaceUri(uri: vscode.Uri): TabWorkspaceUri {
+        const folder = this.folders.getWorkspaceFolder(uri);
+        if (folder) {
+            return { folder: folder.name, path: path.posix.relative(folder.uri.path, uri.path) };
+        }
+
+        return { uri: uri.toString() };
+    }
+
+    /**
+     * Resolve a stored location against the open workspace folders.
+     * If the folder was renamed and only one folder is open, that folder is used.
+     * @returns The resolved URI, or undefined if the folder is not open
+     */
+    public resolveUri(workspaceUri: TabWorkspaceUri): vscode.Uri | undefined {
+        if ('uri' in workspaceUri) {
+            return vscode.Uri.parse(workspaceUri.uri);
+        }
+
+        const folders = this.folders.workspaceFolders ?? [];
+        const folder = folders.find(f => f.name === workspaceUri.folder) ?? (folders.length === 1 ? folders[0] : undefined);
+        return folder ? vscode.Uri.joinPath(folder.uri, workspaceUri.path) : undefined;
+    }
+
+    /**
+     * Upgrade a stored location. Older versions stored absolute URI strings; absolute
+     * locations that now fall inside an open workspace folder become folder-relative.
+     */
+    public normalizeWorkspaceUri(workspaceUri: TabWorkspaceUri | string): TabWorkspaceUri {
+        if (typeof workspaceUri === 'string') {
+            return this.toWorkspaceUri(vscode.Uri.parse(workspaceUri));
+        }
+
+        return 'uri' in workspaceUri ? this.toWorkspaceUri(vscode.Uri.parse(workspaceUri.uri)) : workspaceUri;
+    }
+
+    /**
+     * Upgrade a stored tab input whose locations may still be absolute URI strings
+     */
+    public normalizeInput(input: TabWorkspaceInput): TabWorkspaceInput {
+        return this.mapWorkspaceUris(input, workspaceUri => this.normalizeWorkspaceUri(workspaceUri));
+    }
+
+    /**
+     * Transform every stored location of a tab input
+     */
+    public mapWorkspaceUris(input: TabWorkspaceInput, map: (workspaceUri: TabWorkspaceUri) => TabWorkspaceUri): TabWorkspaceInput {
+        switch (input.kind) {
+            case 'text':
+            case 'custom':
+            case 'notebook':
+                return { ...input, uri: map(input.uri) };
+            case 'textDiff':
+            case 'notebookDiff':
+                return { ...input, original: map(input.original), modified: map(input.modified) };
+            default:
+                return input;
+        }
+    }
+
+    /**
+     * Get the stored locations a tab input refers to
+     */
+    private getWorkspaceUris(input: TabWorkspaceInput): TabWorkspaceUri[] {
+        switch (input.kind) {
+            case 'text':
+            case 'custom':
+            case 'notebook':
+                return [input.uri];
+            case 'textDiff':
+            case 'notebookDiff':
+                return [input.original, input.modified];
+            default:
+                return [];
+        }
+    }
+
+    /**
+     * Get the URIs a tab input refers to, skipping locations whose folder is not open
+     */
+    public getUris(input: TabWorkspaceInput): vscode.Uri[] {
+        return this.getWorkspaceUris(input)
+            .map(workspaceUri => this.resolveUri(workspaceUri))
+            .filter((uri): uri is vscode.Uri => uri !== undefined);
+    }
+
+    /**
+     * Human readable form of a stored location
+     */
+    private describeUri(workspaceUri: TabWorkspaceUri): string {
+        return 'uri' in workspaceUri ? workspaceUri.uri : `${workspaceUri.folder}/${workspaceUri.path}`;
+    }
+
+    /**
+     * Human readable description of a tab input for logging
+     */
+    public describe(input: TabWorkspaceInput): string {
+        switch (input.kind) {
+            case 'text':
+            case 'custom':
+            case 'notebook':
+                return `${input.kind}: ${this.describeUri(input.uri)}`;
+            case 'textDiff':
+            case 'notebookDiff':
+                return `${input.kind}: ${this.describeUri(input.original)} ↔ ${this.describeUri(input.modified)}`;
+            case 'webview':
+                return `webview: ${input.viewType}`;
+            case 'terminal':
+                return 'terminal';
+        }
+    }
+
+    /**
+     * Derive a tab label from a tab input, used for workspaces saved without labels
+     */
+    public getDefaultLabel(input: TabWorkspaceInput): string {
+        const workspaceUri = this.getWorkspaceUris(input).pop();
+        if (!workspaceUri) {
+            return input.kind;
+        }
+
+        return path.posix.basename('uri' in workspaceUri ? vscode.Uri.parse(workspaceUri.uri).path : workspaceUri.path);
+    }
+
+    /**
+     * Check whether a tab input can be reopened (its files still exist and the kind is restorable)
+     */
+    public async canRestore(input: TabWorkspaceInput): Promise<boolean> {
+        if (input.kind === 'webview') {
+            Logger.debug(`Skipping webview tab (cannot be restored): ${input.viewType}`);
+            return false;
+        }
+
+        const uris = this.getUris(input);
+        if (uris.length < this.getWorkspaceUris(input).length) {
+            Logger.debug(`Skipping tab from a workspace folder that is not open: ${this.describe(input)}`);
+            return false;
+        }
+
+        for (const uri of uris) {
+            if (uri.scheme === 'untitled') {
+                Logger.debug(`Skipping untitled document: ${uri.toString()}`);
+                return false;
+            }
+
+            if (uri.scheme === 'file') {
+                try {
+                    await vscode.workspace.fs.stat(uri);
+                } catch {
+                    Logger.debug(`Skipping missing file: ${uri.toString()}`);
+                    return false;
+                }
+            }
+        }
+
+        return true;
+    }
+
+    /**
+     * Load the documents behind a tab input without showing them, so several tabs can load in parallel
+     */
+    public async preload(input: TabWorkspaceInput): Promise<void> {
+        const uris = this.getUris(input);
+        try {
+            switch (input.kind) {
+                case 'text':
+                case 'textDiff':
+                    await Promise.all(uris.map(uri => vscode.workspace.openTextDocument(uri)));
+                    break;
+                case 'notebook':
+                case 'notebookDiff':
+                    await Promise.all(uris.map(uri => vscode.workspace.openNotebookDocument(uri)));
+                    break;
+                default:
+                    break;
+            }
+        } catch (error) {
+            // Showing the tab reports the actual failure
+            Logger.debug(`Failed to preload tab: ${this.describe(input)}`, error);
+        }
+    }
+
+    /**
+     * Open (or reveal, if already open) a tab input through the matching VS Code API
+     * @param input The tab input to open
+     * @param label Tab label, used as title for diffs and terminals
+     * @param options Where and how to show the tab
+     * @returns The text editor for text inputs, undefined for all other kinds
+     */
+    public async show(input: TabWorkspaceInput, label: string, options: TabInputShowOptions): Promise<vscode.TextEditor | undefined> {
+        const { viewColumn, preview, preserveFocus } = options;
+        const [uri, modifiedUri] = this.getUris(input);
+
+        switch (input.kind) {
+            case 'text': {
+                const document = await vscode.workspace.openTextDocument(uri);
+                return vscode.window.showTextDocument(document, options);
+            }
+            case 'textDiff':
+            case 'notebookDiff':
+                await vscode.commands.executeCommand('vscode.diff',
+                    uri,
+                    modifiedUri,
+                    label,
+                    { viewColumn, preview, preserveFocus }
+                );
+                return undefined;
+            case 'custom':
+                await vscode.commands.executeCommand('vscode.openWith',
+                    uri,
+                    input.viewType,
+                    { viewColumn, preview, preserveFocus }
+                );
+                return undefined;
+            case 'notebook': {
+                const notebook = await vscode.workspace.openNotebookDocument(uri);
+                await vscode.window.showNotebookDocument(notebook, { viewColumn, preview, preserveFocus });
+                return undefined;
+            }
+            case 'terminal':
+                vscode.window.createTerminal({ name: label, location: { viewColumn, preserveFocus } });
+                return undefined;
+            case 'webview':
+                throw new Error(`Webview tabs cannot be reopened: ${input.viewType}`);
+        }
+    }
+}
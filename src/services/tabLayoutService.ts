@@ -0,0 +1,373 @@
+import * as vscode from 'vscode';
+import { TabLayoutSnapshot, TabWorkspaceGroup, TabWorkspaceTab, EditorGroupLayout } from '../types';
+import { EditorViewStateService } from './editorViewStateService';
+import { TabInputService } from './tabInputService';
+import { TabReorderService } from './tabReorderService';
+import { UnsavedTabGuardService } from './unsavedTabGuardService';
+import { Logger } from '../utils/logger';
+import { TabEvents } from '../utils/tabEvents';
+
+/**
+ * The parts of `vscode.window.tabGroups` the service reads and closes tabs through, replaceable with a fake in tests
+ */
+export type TabLayoutSource = Pick<vscode.TabGroups, 'all' | 'close'>;
+
+/**
+ * Service that captures open tabs with their editor layout, and brings open tabs
+ * back in line with a capture (used by workspaces and the operation journal)
+ */
+export class TabLayoutService {
+    private viewStateService: EditorViewStateService;
+    private tabInputService: TabInputService;
+    private tabReorderService: TabReorderService;
+    private unsavedTabGuard: UnsavedTabGuardService;
+
+    constructor(context: vscode.ExtensionContext, private readonly tabGroups: TabLayoutSource = vscode.window.tabGroups) {
+        this.tabInputService = new TabInputService();
+        this.viewStateService = new EditorViewStateService();
+        this.tabReorderService = new TabReorderService();
+        this.unsavedTabGuard = new UnsavedTabGuardService();
+        context.subscriptions.push(this.viewStateService);
+    }
+
+    /**
+     * Capture all editor groups with their tabs and the split layout
+     */
+    public async captureLayout(): Promise<TabLayoutSnapshot> {
+        return {
+            groups: this.captureGroups(),
+            layout: await this.getEditorLayout()
+        };
+    }
+
+    /**
+     * Bring open tabs in line with a captured layout: close tabs that are not part of it,
+     * open the missing ones and move everything into the captured order
+     * @param snapshot Groups and layout to restore
+     * @param operation Description of the operation, shown when unsaved tabs would be closed
+     * @param beforeChange Called once nothing stands in the way, right before the first tab changes
+     * @returns Object with opened and skipped counts, or undefined if cancelled because of unsaved tabs
+     */
+    public async applyLayout(snapshot: TabLayoutSnapshot, operation: string, beforeChange?: () => Promise<void>): Promise<{opened: number, skipped: number} | undefined> {
+        const groups = snapshot.groups.slice().sort((a, b) => a.viewColumn - b.viewColumn);
+
+        // Close only the tabs that are not part of the target layout
+        const tabsToClose = await this.unsavedTabGuard.getClosableTabs(this.findTabsToClose(groups), operation);
+        if (!tabsToClose) {
+            return undefined;
+        }
+        await beforeChange?.();
+        await this.closeTabs(tabsToClose);
+
+        // Rebuild the split layout before placing tabs into their groups
+        if (snapshot.layout && !(await this.isCurrentLayout(snapshot.layout))) {
+            await this.setEditorLayout(snapshot.layout);
+            // Removing groups merges their remaining tabs into other groups. Unsaved tabs
+            // still open at this point were kept open on purpose.
+            await this.closeTabs(this.findTabsToClose(groups).filter(tab => !this.unsavedTabGuard.isUnsaved(tab)));
+        }
+
+        // Check and load the missing tabs in parallel, then place them group by group
+        const missingTabs = groups.flatMap(group => this.matchTabs(this.getGroupTabs(group.viewColumn), group.tabs).missing
+            .map(tab => ({ tab, viewColumn: group.viewColumn })));
+        const restorable = await Promise.all(missingTabs.map(({ tab }) => this.prepareWorkspaceTab(tab)));
+
+        let failedCount = restorable.filter(canRestore => !canRestore).length;
+        for (const [index, { tab, viewColumn }] of missingTabs.entries()) {
+            if (restorable[index] && !(await this.openWorkspaceTab(tab, viewColumn))) {
+                failedCount++;
+            }
+        }
+
+        // Terminals appear asynchronously, so wait until the opened tabs show up
+        await TabEvents.waitFor(() => this.countMissingTabs(groups) <= failedCount);
+
+        // Pin kept tabs like they were saved, then move kept and newly opened tabs into the saved order
+        for (const group of groups) {
+            await this.updatePinnedTabs(group);
+            await this.reorderGroupTabs(group);
+        }
+        const skippedCount = this.countMissingTabs(groups);
+        const openedCount = groups.reduce((count, group) => count + group.tabs.length, 0) - skippedCount;
+
+        // Bring back the active tab of every group and focus the previously focused group
+        await this.restoreActiveTabs(groups);
+
+        return { opened: openedCount, skipped: skippedCount };
+    }
+
+    /**
+     * Get the open tabs of the group in the given view column
+     */
+    private getGroupTabs(viewColumn: vscode.ViewColumn): readonly vscode.Tab[] {
+        return this.tabGroups.all.find(tabGroup => tabGroup.viewColumn === viewColumn)?.tabs ?? [];
+    }
+
+    /**
+     * Identify a tab by its input. Tabs that only differ in pinned state are the same tab.
+     */
+    private getTabKey(input: TabWorkspaceTab['input']): string {
+        return JSON.stringify(input);
+    }
+
+    /**
+     * Pair open tabs of a group with the saved tabs they correspond to
+     * @returns For each open tab the index of its saved tab (if any), and the saved tabs that aren't open
+     */
+    private matchTabs(openTabs: readonly vscode.Tab[], targetTabs: TabWorkspaceTab[]): { targetIndices: Array<number | undefined>, missing: TabWorkspaceTab[] } {
+        const available = new Map<string, number[]>();
+        targetTabs.forEach((tab, index) => {
+            const key = this.getTabKey(tab.input);
+            available.set(key, [...(available.get(key) ?? []), index]);
+        });
+
+        const targetIndices = openTabs.map(tab => {
+            const input = this.tabInputService.toWorkspaceInput(tab);
+            const indices = input ? available.get(this.getTabKey(input)) : undefined;
+            // A preview tab would be replaced by the next preview tab opened, so it only counts as a preview
+            if (!indices?.length || (tab.isPreview && !targetTabs[indices[0]].isPreview)) {
+                return undefined;
+            }
+            return indices.shift();
+        });
+
+        const matched = new Set(targetIndices);
+        return { targetIndices, missing: targetTabs.filter((_, index) => !matched.has(index)) };
+    }
+
+    /**
+     * Find open tabs that have no counterpart in the target groups
+     */
+    private findTabsToClose(groups: TabWorkspaceGroup[]): vscode.Tab[] {
+        return this.tabGroups.all.flatMap(tabGroup => {
+            const targetTabs = groups.find(group => group.viewColumn === tabGroup.viewColumn)?.tabs ?? [];
+            const { targetIndices } = this.matchTabs(tabGroup.tabs, targetTabs);
+            return tabGroup.tabs.filter((_, index) => targetIndices[index] === undefined);
+        });
+    }
+
+    /**
+     * Count saved tabs that are not open in their group
+     */
+    private countMissingTabs(groups: TabWorkspaceGroup[]): number {
+        return groups.reduce((count, group) => count + this.matchTabs(this.getGroupTabs(group.viewColumn), group.tabs).missing.length, 0);
+    }
+
+    /**
+     * Close tabs and wait until they are gone
+     */
+    private async closeTabs(tabs: vscode.Tab[]): Promise<void> {
+        if (tabs.length === 0) {
+            return;
+        }
+
+        await this.tabGroups.close(tabs, true);
+        await TabEvents.waitFor(() => {
+            const openTabs = new Set(this.getAllTabs());
+            return tabs.every(tab => !openTabs.has(tab));
+        });
+    }
+
+    /**
+     * Move the open tabs of a group into the saved order, keeping unknown tabs at the end
+     */
+    private async reorderGroupTabs(group: TabWorkspaceGroup): Promise<void> {
+        const openTabs = this.getGroupTabs(group.viewColumn);
+        const { targetIndices } = this.matchTabs(openTabs, group.tabs);
+        const rank = (index: number) => targetIndices[index] ?? group.tabs.length + index;
+        const order = openTabs.map((_, index) => index).sort((a, b) => rank(a) - rank(b));
+
+        try {
+            await this.tabReorderService.reorderGroup(group.viewColumn, order);
+        } catch (error) {
+            Logger.debug(`Failed to reorder tabs of group ${group.viewColumn}`, error);
+        }
+    }
+
+    /**
+     * Pin or unpin the open tabs of a group whose pinned state differs from their saved tab.
+     * Pinning moves a tab to the end of the pinned tabs, so the group is re-read after every change.
+     */
+    private async updatePinnedTabs(group: TabWorkspaceGroup): Promise<void> {
+        try {
+            for (let changed = 0; changed < group.tabs.length; changed++) {
+                const openTabs = this.getGroupTabs(group.viewColumn);
+                const { targetIndices } = this.matchTabs(openTabs, group.tabs);
+                const index = openTabs.findIndex((tab, openIndex) => {
+                    const targetIndex = targetIndices[openIndex];
+                    return targetIndex !== undefined && tab.isPinned !== group.tabs[targetIndex].isPinned;
+                });
+                if (index === -1) {
+                    return;
+                }
+
+                // Pinning acts on the active editor
+                await this.tabReorderService.activateTab(group.viewColumn, index);
+                if (!this.getGroupTabs(group.viewColumn)[index]?.isActive) {
+                    return; // The group can't be focused
+                }
+                await vscode.commands.executeCommand(openTabs[index].isPinned ? 'workbench.action.unpinEditor' : 'workbench.action.pinEditor');
+            }
+        } catch (error) {
+            Logger.debug(`Failed to update pinned tabs of group ${group.viewColumn}`, error);
+        }
+    }
+
+    /**
+     * Check that a workspace tab can be restored and load its documents
+     * @returns True if the tab can be opened
+     */
+    private async prepareWorkspaceTab(tab: TabWorkspaceTab): Promise<boolean> {
+        // Check that the tab's files still exist and the tab kind can be restored
+        if (!(await this.tabInputService.canRestore(tab.input))) {
+            return false;
+        }
+
+        await this.tabInputService.preload(tab.input);
+        return true;
+    }
+
+    /**
+     * Open a single workspace tab in the given view column
+     * @returns True if the tab was opened, false if it failed to open
+     */
+    private async openWorkspaceTab(tab: TabWorkspaceTab, viewColumn: vscode.ViewColumn): Promise<boolean> {
+        const description = this.tabInputService.describe(tab.input);
+        try {
+            // Only text editors take a selection when shown; the document is already loaded by preloading
+            const selection = tab.viewState && tab.input.kind === 'text'
+                ? this.viewStateService.getSelectionRange(tab.viewState, await vscode.workspace.openTextDocument(this.tabInputService.getUris(tab.input)[0]))
+                : undefined;
+
+            // Open the tab. Pinning acts on the active editor, so pinned tabs take focus briefly
+            const editor = await this.tabInputService.show(tab.input, tab.label, {
+                viewColumn,
+                preview: tab.isPreview && !tab.isPinned,
+                preserveFocus: !tab.isPinned,
+                selection
+            });
+            if (editor && tab.viewState) {
+                this.viewStateService.applyViewState(editor, tab.viewState);
+            }
+            if (tab.isPinned) {
+                await vscode.commands.executeCommand('workbench.action.pinEditor');
+            }
+            Logger.debug(`Successfully opened: ${description}`);
+            return true;
+        } catch (error) {
+            // Tab can't be opened
+            const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+            
+            // Check if it's a binary file error
+            if (errorMessage.includes('binary') || errorMessage.includes('cannot be opened as text')) {
+                Logger.debug(`Skipped binary file: ${description}`);
+            } else {
+                Logger.error(`Failed to open tab: ${description} - ${errorMessage}`, error);
+            }
+            return false;
+        }
+    }
+
+    /**
+     * Get the current editor group layout
+     */
+    public async getEditorLayout(): Promise<EditorGroupLayout | undefined> {
+        try {
+            return await vscode.commands.executeCommand<EditorGroupLayout>('vscode.getEditorLayout');
+        } catch (error) {
+            Logger.error('Failed to read editor layout', error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Check whether the editor groups already have the given layout
+     */
+    private async isCurrentLayout(layout: EditorGroupLayout): Promise<boolean> {
+        return JSON.stringify(await this.getEditorLayout()) === JSON.stringify(layout);
+    }
+
+    /**
+     * Apply an editor group layout, creating or removing groups as needed
+     */
+    private async setEditorLayout(layout: EditorGroupLayout): Promise<void> {
+        try {
+            await vscode.commands.executeCommand('vscode.setEditorLayout', layout);
+        } catch (error) {
+            Logger.error('Failed to restore editor layout', error);
+        }
+    }
+
+    /**
+     * Re-activate the saved active tab of each group, ending with the group that had focus
+     */
+    private async restoreActiveTabs(groups: TabWorkspaceGroup[]): Promise<void> {
+        const focusedGroup = groups.find(group => group.isActive);
+        const orderedGroups = [
+            ...groups.filter(group => group !== focusedGroup),
+            ...(focusedGroup ? [focusedGroup] : [])
+        ];
+
+        for (const group of orderedGroups) {
+            // Terminals would be created again and webviews can't be reopened, so leave those alone
+            const activeTab = group.tabs.find(tab => tab.isActive);
+            if (!activeTab || activeTab.input.kind === 'terminal' || activeTab.input.kind === 'webview') {
+                continue;
+            }
+
+            try {
+                await this.tabInputService.show(activeTab.input, activeTab.label, {
+                    viewColumn: group.viewColumn,
+                    preview: activeTab.isPreview && !activeTab.isPinned,
+                    preserveFocus: group !== focusedGroup
+                });
+            } catch (error) {
+                Logger.debug(`Failed to restore active tab: ${this.tabInputService.describe(activeTab.input)}`, error);
+            }
+        }
+    }
+
+    /**
+     * Capture every editor group with its tabs in their current order
+     */
+    public captureGroups(): TabWorkspaceGroup[] {
+        return this.tabGroups.all.map(tabGroup => ({
+            viewColumn: tabGroup.viewColumn,
+            tabs: this.toWorkspaceTabs(tabGroup.tabs),
+            isActive: tabGroup.isActive
+        }));
+    }
+
+    /**
+     * Convert open tabs into the tabs persisted in a workspace
+     */
+    private toWorkspaceTabs(tabs: readonly vscode.Tab[]): TabWorkspaceTab[] {
+        const workspaceTabs: TabWorkspaceTab[] = [];
+        for (const tab of tabs) {
+            const input = this.tabInputService.toWorkspaceInput(tab);
+            if (!input) {
+                Logger.debug(`Skipping tab with unknown input type: ${tab.label}`);
+                continue;
+            }
+
+            workspaceTabs.push({
+                input,
+                label: tab.label,
+                isPinned: tab.isPinned,
+                isPreview: tab.isPreview,
+                isActive: tab.isActive,
+                viewState: tab.input instanceof vscode.TabInputText
+                    ? this.viewStateService.getViewState(tab.input.uri, tab.group.viewColumn)
+                    : undefined
+            });
+        }
+        return workspaceTabs;
+    }
+
+    /**
+     * Get all open tabs across all tab groups
+     */
+    private getAllTabs(): vscode.Tab[] {
+        return this.tabGroups.all.flatMap(tabGroup => tabGroup.tabs);
+    }
+}
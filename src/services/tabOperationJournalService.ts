@@ -0,0 +1,77 @@
+import { TabOperationRecord } from '../types';
+import { TabLayoutService } from './tabLayoutService';
+import { ConfigurationManager } from '../utils/configurationManager';
+import { Logger } from '../utils/logger';
+import { TabEvents } from '../utils/tabEvents';
+
+/**
+ * Service that records the tab layout before bulk tab operations so they can be undone
+ */
+export class TabOperationJournalService {
+    private history: TabOperationRecord[] = []; // Oldest first
+
+    constructor(private readonly layoutService: TabLayoutService) {}
+
+    /**
+     * Record the current tab layout before an operation changes it.
+     * Failing to record never blocks the operation itself.
+     * @param operation Human readable name of the operation
+     */
+    public async record(operation: string): Promise<void> {
+        try {
+            this.history.push({
+                operation,
+                timestamp: new Date(),
+                snapshot: await this.layoutService.captureLayout()
+            });
+
+            const historySize = Math.max(1, ConfigurationManager.getConfig().undoHistorySize);
+            this.history.splice(0, Math.max(0, this.history.length - historySize));
+            Logger.debug(`Recorded tab layout before "${operation}"`);
+        } catch (error) {
+            Logger.error(`Failed to record tab layout before "${operation}"`, error);
+        }
+    }
+
+    /**
+     * Get the most recent operation that can be undone
+     */
+    public getLastOperation(): TabOperationRecord | undefined {
+        return this.history[this.history.length - 1];
+    }
+
+    /**
+     * Get all operations that can be undone, most recent first
+     */
+    public getHistory(): TabOperationRecord[] {
+        return this.history.slice().reverse();
+    }
+
+    /**
+     * Restore the tab layout from before the most recent operation
+     * @returns Object with opened and skipped counts, or undefined if there is nothing to undo or it was cancelled
+     */
+    public async undo(): Promise<{opened: number, skipped: number} | undefined> {
+        const record = this.history.pop();
+        if (!record) {
+            return undefined;
+        }
+
+        try {
+            const result = await TabEvents.runOwnChange(() =>
+                this.layoutService.applyLayout(record.snapshot, `Undoing "${record.operation}"`));
+
+            if (!result) {
+                // Cancelled because of unsaved tabs, keep the entry for another attempt
+                this.history.push(record);
+                return undefined;
+            }
+
+            Logger.info(`Undid "${record.operation}" (${result.opened} tabs restored, ${result.skipped} skipped)`);
+            return result;
+        } catch (error) {
+            Logger.error(`Failed to undo "${record.operation}"`, error);
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import { Logger } from '../utils/logger';
+
+/**
+ * A single tab move within a group, as indices into the group's tabs
+ */
+interface TabMove {
+    from: number;
+    to: number;
+}
+
+/**
+ * Service for moving tabs into a target order within their group, without closing them
+ */
+export class TabReorderService {
+    // Commands that focus an editor group by its position (VS Code only provides eight)
+    private static readonly FOCUS_GROUP_COMMANDS = [
+        'workbench.action.focusFirstEditorGroup',
+        'workbench.action.focusSecondEditorGroup',
+        'workbench.action.focusThirdEditorGroup',
+        'workbench.action.focusFourthEditorGroup',
+        'workbench.action.focusFifthEditorGroup',
+        'workbench.action.focusSixthEditorGroup',
+        'workbench.action.focusSeventhEditorGroup',
+        'workbench.action.focusEighthEditorGroup'
+    ];
+
+    /**
+     * Move the tabs of a group into a target order using the minimum number of moves
+     * @param viewColumn View column of the group to reorder
+     * @param order Current indices of the group's tabs, listed in their target order
+     * @returns Number of tabs moved
+     */
+    public async reorderGroup(viewColumn: vscode.ViewColumn, order: number[]): Promise<number> {
+        const moves = TabReorderService.planMoves(order);
+        if (moves.length === 0) {
+            return 0;
+        }
+
+        if (!TabReorderService.FOCUS_GROUP_COMMANDS[viewColumn - 1]) {
+            Logger.debug(`Cannot reorder tabs of group ${viewColumn}: group cannot be focused`);
+            return 0;
+        }
+
+        const tabGroup = vscode.window.tabGroups.all.find(group => group.viewColumn === viewColumn);
+        const activeIndex = tabGroup?.activeTab ? tabGroup.tabs.indexOf(tabGroup.activeTab) : -1;
+
+        try {
+            // Moving acts on the active editor of the focused group
+            for (const move of moves) {
+                await this.activateTab(viewColumn, move.from);
+                await vscode.commands.executeCommand('moveActiveEditor', { to: 'position', by: 'tab', value: move.to + 1 });
+            }
+
+            // Bring back the tab that was active in the group before
+            if (activeIndex !== -1) {
+                await this.activateTab(viewColumn, order.indexOf(activeIndex));
+            }
+
+            Logger.debug(`Moved ${moves.length} tab(s) in group ${viewColumn}`);
+            return moves.length;
+        } catch (error) {
+            Logger.error(`Failed to reorder tabs in group ${viewColumn}`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Focus a group and make the tab at the given index its active tab
+     * @param viewColumn View column of the group
+     * @param index Index of the tab within the group
+     */
+    public async activateTab(viewColumn: vscode.ViewColumn, index: number): Promise<void> {
+        const focusCommand = TabReorderService.FOCUS_GROUP_COMMANDS[viewColumn - 1];
+        if (!focusCommand || index < 0) {
+            return;
+        }
+
+        await vscode.commands.executeCommand(focusCommand);
+        await vscode.commands.executeCommand('workbench.action.openEditorAtIndex', index);
+    }
+
+    /**
+     * Plan the moves that bring tabs into the target order. Tabs on the longest increasing
+     * subsequence of current indices are already in relative order and stay where they are.
+     * @param order Current tab indices, listed in their target order
+     */
+    public static planMoves(order: number[]): TabMove[] {
+        const stationary = TabReorderService.longestIncreasingSubsequence(order);
+        const current = order.slice().sort((a, b) => a - b);
+        const moves: TabMove[] = [];
+
+        order.forEach((tabIndex, targetIndex) => {
+            if (stationary.has(targetIndex)) {
+                return;
+            }
+
+            // Place the tab right after its predecessor in the target order
+            const from = current.indexOf(tabIndex);
+            current.splice(from, 1);
+            const to = targetIndex === 0 ? 0 : current.indexOf(order[targetIndex - 1]) + 1;
+            current.splice(to, 0, tabIndex);
+
+            if (from !== to) {
+                moves.push({ from, to });
+            }
+        });
+
+        return moves;
+    }
+
+    /**
+     * Find the positions in `values` that form a longest increasing subsequence
+     */
+    private static longestIncreasingSubsequence(values: number[]): Set<number> {
+        const tails: number[] = []; // tails[k]: position of the smallest tail of an increasing run of length k + 1
+        const previous: number[] = [];
+
+        values.forEach((value, position) => {
+            let low = 0;
+            let high = tails.length;
+            while (low < high) {
+                const middle = (low + high) >> 1;
+                if (values[tails[middle]] < value) {
+                    low = middle + 1;
+                } else {
+                    high = middle;
+                }
+            }
+
+            previous[position] = low > 0 ? tails[low - 1] : -1;
+            tails[low] = position;
+        });
+
+        const positions = new Set<number>();
+        for (let position = tails.length > 0 ? tails[tails.length - 1] : -1; position !== -1; position = previous[position]) {
+            positions.add(position);
+        }
+        return positions;
+    }
+}
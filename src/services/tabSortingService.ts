@@ -1,319 +1,432 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
+import { ExtensionConfig, GitChangeKind, TabSortKey, TabSortOptions, TabSortRule } from '../types';
+import { TabReorderService } from './tabReorderService';
+import { TabInputService } from './tabInputService';
+import { TabActivityService } from './tabActivityService';
+import { GitRepositoryService } from './gitRepositoryService';
+import { TabOperationJournalService } from './tabOperationJournalService';
+import { ConfigurationManager } from '../utils/configurationManager';
+import { Logger } from '../utils/logger';
+import { TabEvents } from '../utils/tabEvents';
+import { GlobMatcher } from '../utils/globMatcher';
 
 /**
- * Service responsible for sorting tabs by file type and alphabetically
+ * Value a tab is compared by for one sort key. Numbers sort before strings,
+ * undefined (key doesn't apply to the tab) sorts last, arrays compare element by element.
+ */
+type SortValue = string | number | undefined | SortValue[];
+
+/**
+ * Ordering rule with its conditions compiled for matching
+ */
+interface CompiledSortRule {
+    rule: TabSortRule;
+    regex?: RegExp;
+}
+
+/**
+ * Data shared by all sort keys during a single sort run
+ */
+interface SortContext {
+    customFileTypeOrder: string[];
+    rules: CompiledSortRule[];
+    stemSuffixes: string[];
+    stemRoles: string[];
+    gitChanges: Map<string, GitChangeKind>;
+}
+
+/**
+ * Computes the value of a tab for one sort key
+ */
+type SortKeyFunction = (tab: vscode.Tab, context: SortContext) => SortValue | Promise<SortValue>;
+
+/**
+ * The parts of `vscode.window.tabGroups` the service sorts and listens to, replaceable with a fake in tests
+ */
+export type TabSortingSource = Pick<vscode.TabGroups, 'all' | 'activeTabGroup' | 'onDidChangeTabs'>;
+
+/**
+ * Service responsible for sorting tabs by a configurable chain of sort keys
  */
 export class TabSortingService {
+    // Changed files first, most urgent first
+    private static readonly GIT_CHANGE_ORDER: GitChangeKind[] = ['conflict', 'modified', 'staged', 'untracked'];
+    private static readonly KEEP_SORTED_DELAY = 300; // Debounce for sorting newly opened tabs
+
+    private tabInputService = new TabInputService();
+    private gitRepositoryService = new GitRepositoryService();
+    private keepSortedTimer?: ReturnType<typeof setTimeout>;
+    private unsortedGroups: Set<vscode.TabGroup> = new Set(); // Groups with tabs opened since the last automatic sort
+
+    private readonly sortKeys: Record<TabSortKey, SortKeyFunction> = {
+        rule: async (tab, context) => {
+            const index = this.findMatchingRule(tab, context.rules);
+            if (index === -1) {
+                return [0, context.rules.length];
+            }
+
+            // Higher priorities first, then rule order, then the rule's own ordering
+            const { priority = 0, sortKeys = [] } = context.rules[index].rule;
+            const secondaryKeys = sortKeys.filter(key => key !== 'rule');
+            return [-priority, index, ...(await Promise.all(secondaryKeys.map(key => this.sortKeys[key](tab, context))))];
+        },
+        extension: (tab, context) => {
+            const ext = this.getFileExtension(tab);
+            const index = context.customFileTypeOrder.indexOf(ext);
+            // Extensions from the custom order come first, in that order
+            return index !== -1 ? index : ext;
+        },
+        name: tab => this.getFileName(tab),
+        path: tab => {
+            const uri = this.tabInputService.getTabUri(tab);
+            return (uri ? vscode.workspace.asRelativePath(uri, true) : tab.label).toLowerCase();
+        },
+        directory: tab => {
+            const uri = this.tabInputService.getTabUri(tab);
+            return uri ? path.posix.dirname(vscode.workspace.asRelativePath(uri, true)).toLowerCase() : undefined;
+        },
+        workspaceFolder: tab => {
+            const uri = this.tabInputService.getTabUri(tab);
+            return uri ? vscode.workspace.getWorkspaceFolder(uri)?.index : undefined;
+        },
+        recent: tab => {
+            // Most recently focused first
+            const lastFocused = this.tabActivityService.getLastFocused(tab);
+            return lastFocused !== undefined ? -lastFocused : undefined;
+        },
+        gitStatus: (tab, context) => {
+            const uri = this.tabInputService.getTabUri(tab);
+            const changeKind = uri ? context.gitChanges.get(uri.toString()) : undefined;
+            return changeKind ? TabSortingService.GIT_CHANGE_ORDER.indexOf(changeKind) : undefined;
+        },
+        size: async tab => {
+            const uri = this.tabInputService.getTabUri(tab);
+            if (!uri) {
+                return undefined;
+            }
+            try {
+                return (await vscode.workspace.fs.stat(uri)).size;
+            } catch {
+                return undefined;
+            }
+        },
+        language: tab => {
+            const uri = this.tabInputService.getTabUri(tab)?.toString();
+            return vscode.workspace.textDocuments.find(document => document.uri.toString() === uri)?.languageId;
+        },
+        stem: (tab, context) => this.splitStem(tab, context.stemSuffixes).stem,
+        role: (tab, context) => {
+            const index = context.stemRoles.indexOf(this.splitStem(tab, context.stemSuffixes).role);
+            return index !== -1 ? index : undefined;
+        }
+    };
 
     /**
-     * Sort all open tabs by file type (using custom order if provided) and then alphabetically
-     * Simple approach: close all tabs and reopen in sorted order
-     * @param customFileTypeOrder Custom order for file extensions
+     * Build sort options from the extension configuration
+     * @param keys Sort keys to use instead of `cleanx.sortKeys`, e.g. from a preset
      */
-    public async sortTabs(customFileTypeOrder: string[] = []): Promise<number> {
-        const allTabs = this.getAllTabs();
-        
-        if (allTabs.length <= 1) {
-            return 0; // No need to sort if 0 or 1 tabs
-        }
+    public static getSortOptions(config: ExtensionConfig, keys: TabSortKey[] = config.sortKeys): TabSortOptions {
+        return {
+            keys,
+            customFileTypeOrder: config.customFileTypeOrder,
+            rules: config.sortRules,
+            stemSuffixes: config.stemSuffixes,
+            stemRoles: config.stemRoles
+        };
+    }
 
-        // Store all tab information
-        const allTabInfos: Array<{
-            uri?: vscode.Uri;
-            originalUri?: vscode.Uri;
-            modifiedUri?: vscode.Uri;
-            viewType?: string;
-            isActive: boolean;
-            isPinned: boolean;
-            label: string;
-            viewColumn: vscode.ViewColumn;
-        }> = [];
-
-        let activeTabInfo: typeof allTabInfos[0] | undefined;
-
-        // Collect information from all tabs
-        for (const tab of allTabs) {
-            const tabInfo: typeof allTabInfos[0] = {
-                isActive: tab.isActive,
-                isPinned: tab.isPinned,
-                label: tab.label,
-                viewColumn: tab.group.viewColumn
-            };
-
-            if (tab.isActive) {
-                activeTabInfo = tabInfo;
-            }
+    constructor(
+        context: vscode.ExtensionContext,
+        private readonly journal: TabOperationJournalService,
+        private readonly tabActivityService: TabActivityService,
+        private readonly tabGroups: TabSortingSource = vscode.window.tabGroups,
+        private readonly tabReorderService: TabReorderService = new TabReorderService()
+    ) {
+        this.setupKeepSorted(context);
+    }
 
-            if (tab.input instanceof vscode.TabInputText) {
-                tabInfo.uri = tab.input.uri;
-            } else if (tab.input instanceof vscode.TabInputTextDiff) {
-                tabInfo.originalUri = tab.input.original;
-                tabInfo.modifiedUri = tab.input.modified;
-            } else if (tab.input instanceof vscode.TabInputCustom) {
-                tabInfo.uri = tab.input.uri;
-                tabInfo.viewType = tab.input.viewType;
+    /**
+     * Sort the tabs of every editor group by the given sort keys.
+     * Each group is sorted on its own and tabs are moved into place, nothing is closed.
+     * @param options Sort keys and custom file type order
+     * @param consolidateGroups Whether to merge all groups into one sorted group first
+     * @returns Number of tabs moved
+     */
+    public async sortTabs(options: TabSortOptions, consolidateGroups: boolean = false): Promise<number> {
+        return TabEvents.runOwnChange(async () => {
+            if (consolidateGroups && this.tabGroups.all.length > 1) {
+                await this.journal.record('Sort Tabs');
+                await this.consolidateGroups();
+                return this.sortGroups(this.tabGroups.all, options);
             }
 
-            allTabInfos.push(tabInfo);
-        }
+            return this.sortGroups(this.tabGroups.all, options, 'Sort Tabs');
+        });
+    }
 
-        // Sort all tabs
-        const sortedTabInfos = this.sortTabInfoArray(allTabInfos, customFileTypeOrder);
+    /**
+     * Sort only the tabs of the active editor group
+     * @param options Sort keys and custom file type order
+     * @returns Number of tabs moved
+     */
+    public async sortActiveGroup(options: TabSortOptions): Promise<number> {
+        return TabEvents.runOwnChange(() => this.sortGroups([this.tabGroups.activeTabGroup], options, 'Sort Active Group'));
+    }
 
-        // Close all tabs
-        try {
-            await vscode.window.tabGroups.close(allTabs, true);
-            // Wait for all tabs to close
-            await new Promise(resolve => setTimeout(resolve, 100));
-        } catch (error) {
-            console.warn('Failed to close all tabs:', error);
-            return 0;
+    /**
+     * Compute the order sort options put the tabs of a group in, without moving them
+     * @param tabs Tabs of one group in their current order
+     * @returns Current tab indices in their sorted order
+     */
+    public async computeSortedOrder(tabs: readonly vscode.Tab[], options: TabSortOptions): Promise<number[]> {
+        return this.getSortedOrder(tabs, options.keys, await this.createSortContext(options));
+    }
+
+    /**
+     * Sort several groups, then give focus back to the tab that had it
+     * @param operation Name to record in the operation journal before moving anything, omit to not record
+     */
+    private async sortGroups(tabGroups: readonly vscode.TabGroup[], options: TabSortOptions, operation?: string): Promise<number> {
+        const activeGroup = this.tabGroups.activeTabGroup;
+        const activeTab = activeGroup.activeTab;
+        const context = await this.createSortContext(options);
+        const orders = await Promise.all(tabGroups.map(tabGroup => this.getSortedOrder(tabGroup.tabs, options.keys, context)));
+
+        if (operation && orders.some(order => TabReorderService.planMoves(order).length > 0)) {
+            await this.journal.record(operation);
         }
 
-        // Reopen all tabs in sorted order
-        let reopenedCount = 0;
-        for (const tabInfo of sortedTabInfos) {
-            try {
-                if (tabInfo.uri && !tabInfo.originalUri) {
-                    // Regular text file
-                    const document = await vscode.workspace.openTextDocument(tabInfo.uri);
-                    await vscode.window.showTextDocument(document, {
-                        viewColumn: tabInfo.viewColumn,
-                        preview: !tabInfo.isPinned,
-                        preserveFocus: true
-                    });
-                    reopenedCount++;
-                } else if (tabInfo.originalUri && tabInfo.modifiedUri) {
-                    // Diff editor
-                    await vscode.commands.executeCommand('vscode.diff',
-                        tabInfo.originalUri,
-                        tabInfo.modifiedUri,
-                        tabInfo.label,
-                        {
-                            viewColumn: tabInfo.viewColumn,
-                            preview: !tabInfo.isPinned
-                        }
-                    );
-                    reopenedCount++;
-                }
-                
-                // Small delay between tabs
-                await new Promise(resolve => setTimeout(resolve, 50));
-            } catch (error) {
-                console.warn(`Failed to reopen tab: ${tabInfo.label}`, error);
-            }
+        let movedCount = 0;
+        for (let i = 0; i < tabGroups.length; i++) {
+            movedCount += await this.tabReorderService.reorderGroup(tabGroups[i].viewColumn, orders[i]);
         }
 
-        // Restore focus to originally active tab if possible
-        if (activeTabInfo?.uri) {
-            try {
-                const document = await vscode.workspace.openTextDocument(activeTabInfo.uri);
-                await vscode.window.showTextDocument(document, {
-                    viewColumn: activeTabInfo.viewColumn,
-                    preserveFocus: false
-                });
-            } catch (error) {
-                console.warn('Failed to restore active tab focus:', error);
-            }
+        // Moving tabs focuses their groups, so give focus back to the group that had it
+        if (movedCount > 0 && activeTab) {
+            await this.tabReorderService.activateTab(activeGroup.viewColumn, activeGroup.tabs.indexOf(activeTab));
         }
 
-        return reopenedCount;
+        return movedCount;
     }
 
     /**
-     * Get all open tabs across all tab groups
+     * Sort groups again when tabs are opened in them while `cleanx.keepTabsSorted` is enabled
      */
-    private getAllTabs(): vscode.Tab[] {
-        const allTabs: vscode.Tab[] = [];
-        
-        for (const tabGroup of vscode.window.tabGroups.all) {
-            allTabs.push(...tabGroup.tabs);
+    private setupKeepSorted(context: vscode.ExtensionContext): void {
+        context.subscriptions.push(
+            this.tabGroups.onDidChangeTabs(event => {
+                // Moves made by CleanX itself raise the same events, so ignore those
+                if (event.opened.length === 0 || TabEvents.isOwnChange() || !ConfigurationManager.getConfig().keepTabsSorted) {
+                    return;
+                }
+
+                event.opened.forEach(tab => this.unsortedGroups.add(tab.group));
+                if (this.keepSortedTimer) {
+                    clearTimeout(this.keepSortedTimer);
+                }
+                this.keepSortedTimer = setTimeout(() => void this.sortUnsortedGroups(), TabSortingService.KEEP_SORTED_DELAY);
+            }),
+            { dispose: () => clearTimeout(this.keepSortedTimer) }
+        );
+    }
+
+    /**
+     * Sort the groups that had tabs opened since the last automatic sort
+     */
+    private async sortUnsortedGroups(): Promise<void> {
+        this.keepSortedTimer = undefined;
+        const openGroups = this.tabGroups.all;
+        const tabGroups = [...this.unsortedGroups].filter(tabGroup => openGroups.includes(tabGroup));
+        this.unsortedGroups.clear();
+
+        try {
+            const config = ConfigurationManager.getConfig();
+            await TabEvents.runOwnChange(() => this.sortGroups(tabGroups, TabSortingService.getSortOptions(config)));
+        } catch (error) {
+            Logger.error('Failed to keep tabs sorted', error);
         }
-        
-        return allTabs;
     }
 
     /**
-     * Sort an array of tab info objects by file type and alphabetically
+     * Compute the sorted order of a single group, keeping pinned tabs in a leading block
+     * @returns Current tab indices in their sorted order
      */
-    private sortTabInfoArray(tabInfos: Array<{
-        uri?: vscode.Uri;
-        originalUri?: vscode.Uri;
-        modifiedUri?: vscode.Uri;
-        viewType?: string;
-        isActive: boolean;
-        isPinned: boolean;
-        label: string;
-        viewColumn: vscode.ViewColumn;
-    }>, customFileTypeOrder: string[]): typeof tabInfos {
-        return tabInfos.slice().sort((a, b) => {
-            const aExt = this.getFileExtensionFromTabInfo(a);
-            const bExt = this.getFileExtensionFromTabInfo(b);
-            const aFileName = this.getFileNameFromTabInfo(a);
-            const bFileName = this.getFileNameFromTabInfo(b);
-
-            // If we have a custom order, use it
-            if (customFileTypeOrder.length > 0) {
-                const aIndex = customFileTypeOrder.indexOf(aExt);
-                const bIndex = customFileTypeOrder.indexOf(bExt);
-                
-                // If both extensions are in the custom order
-                if (aIndex !== -1 && bIndex !== -1) {
-                    if (aIndex !== bIndex) {
-                        return aIndex - bIndex;
-                    }
-                    // Same extension priority, sort alphabetically by filename
-                    return aFileName.localeCompare(bFileName);
-                }
-                
-                // If only one is in the custom order, prioritize it
-                if (aIndex !== -1) {
-                    return -1;
-                }
-                if (bIndex !== -1) {
-                    return 1;
-                }
-                
-                // Neither in custom order, fall through to default sorting
+    private async getSortedOrder(tabs: readonly vscode.Tab[], keys: TabSortKey[], context: SortContext): Promise<number[]> {
+        if (tabs.length <= 1) {
+            return tabs.map((_, index) => index); // No need to sort if 0 or 1 tabs
+        }
+
+        const values = await Promise.all(tabs.map(tab => Promise.all(keys.map(key => this.sortKeys[key](tab, context)))));
+
+        // Ties fall through to the next key; tabs equal on every key keep their current order
+        return tabs.map((_, index) => index).sort((a, b) => {
+            // Pinned tabs always stay in front of unpinned ones
+            if (tabs[a].isPinned !== tabs[b].isPinned) {
+                return tabs[a].isPinned ? -1 : 1;
             }
 
-            // Default sorting: first by extension, then by filename
-            if (aExt !== bExt) {
-                return aExt.localeCompare(bExt);
+            for (let i = 0; i < keys.length; i++) {
+                const result = this.compareValues(values[a][i], values[b][i]);
+                if (result !== 0) {
+                    return result;
+                }
             }
-            
-            return aFileName.localeCompare(bFileName);
+            return 0;
         });
     }
 
     /**
-     * Sort an array of tabs by file type and alphabetically
+     * Gather data needed by the sort keys, only loading Git state when it is used
      */
-    private sortTabsArray(tabs: vscode.Tab[], customFileTypeOrder: string[]): vscode.Tab[] {
-        return tabs.slice().sort((a, b) => {
-            const aExt = this.getFileExtension(a);
-            const bExt = this.getFileExtension(b);
-            const aFileName = this.getFileName(a);
-            const bFileName = this.getFileName(b);
-
-            // If we have a custom order, use it
-            if (customFileTypeOrder.length > 0) {
-                const aIndex = customFileTypeOrder.indexOf(aExt);
-                const bIndex = customFileTypeOrder.indexOf(bExt);
-                
-                // If both extensions are in the custom order
-                if (aIndex !== -1 && bIndex !== -1) {
-                    if (aIndex !== bIndex) {
-                        return aIndex - bIndex;
-                    }
-                    // Same extension priority, sort alphabetically by filename
-                    return aFileName.localeCompare(bFileName);
-                }
-                
-                // If only one is in the custom order, prioritize it
-                if (aIndex !== -1) {
-                    return -1;
-                }
-                if (bIndex !== -1) {
-                    return 1;
-                }
-                
-                // Neither in custom order, fall through to default sorting
+    private async createSortContext(options: TabSortOptions): Promise<SortContext> {
+        const rules = options.keys.includes('rule') ? this.compileRules(options.rules) : [];
+        const usesGitStatus = options.keys.includes('gitStatus') || rules.some(({ rule }) => rule.sortKeys?.includes('gitStatus'));
+
+        return {
+            customFileTypeOrder: options.customFileTypeOrder,
+            rules,
+            stemSuffixes: options.stemSuffixes.map(suffix => suffix.replace(/^\./, '').toLowerCase()),
+            stemRoles: options.stemRoles.map(role => role.replace(/^\./, '').toLowerCase()),
+            gitChanges: usesGitStatus ? await this.gitRepositoryService.getChangeKinds() : new Map()
+        };
+    }
+
+    /**
+     * Compile the regular expressions of ordering rules, dropping rules with invalid patterns
+     */
+    private compileRules(rules: TabSortRule[]): CompiledSortRule[] {
+        const compiled: CompiledSortRule[] = [];
+        for (const rule of rules) {
+            try {
+                compiled.push({ rule, regex: rule.regex ? new RegExp(rule.regex) : undefined });
+            } catch (error) {
+                Logger.error(`Invalid regular expression in sort rule: ${rule.regex}`, error);
             }
+        }
+        return compiled;
+    }
+
+    /**
+     * Find the rule with the highest priority that matches a tab (the first one on ties)
+     * @returns Index of the rule, or -1 if no rule matches
+     */
+    private findMatchingRule(tab: vscode.Tab, rules: CompiledSortRule[]): number {
+        const uri = this.tabInputService.getTabUri(tab);
+        const relativePath = uri ? vscode.workspace.asRelativePath(uri, false) : tab.label;
+        const fileName = uri ? path.posix.basename(uri.path) : tab.label;
 
-            // Default sorting: first by extension, then by filename
-            if (aExt !== bExt) {
-                return aExt.localeCompare(bExt);
+        let match = -1;
+        rules.forEach(({ rule, regex }, index) => {
+            const matches = (rule.glob !== undefined || rule.filename !== undefined || regex !== undefined)
+                && (rule.glob === undefined || GlobMatcher.matches(rule.glob, relativePath))
+                && (rule.filename === undefined || rule.filename === fileName)
+                && (regex === undefined || regex.test(relativePath));
+            if (matches && (match === -1 || (rule.priority ?? 0) > (rules[match].rule.priority ?? 0))) {
+                match = index;
             }
-            
-            return aFileName.localeCompare(bFileName);
         });
+        return match;
     }
 
     /**
-     * Get file extension from a tab
+     * Compare two sort values: numbers before strings, undefined last, arrays element by element
      */
-    private getFileExtension(tab: vscode.Tab): string {
-        let filePath = '';
-        
-        if (tab.input instanceof vscode.TabInputText) {
-            filePath = tab.input.uri.fsPath;
-        } else if (tab.input instanceof vscode.TabInputTextDiff) {
-            filePath = tab.input.modified.fsPath;
-        } else {
-            // For other tab types, try to extract from label
-            filePath = tab.label;
+    private compareValues(a: SortValue, b: SortValue): number {
+        if (a === b) {
+            return 0;
         }
-        
-        const ext = path.extname(filePath);
-        return ext.startsWith('.') ? ext.substring(1).toLowerCase() : '';
+        if (a === undefined || b === undefined) {
+            return a === undefined ? 1 : -1;
+        }
+        if (Array.isArray(a) && Array.isArray(b)) {
+            for (let i = 0; i < Math.max(a.length, b.length); i++) {
+                const result = this.compareValues(a[i], b[i]);
+                if (result !== 0) {
+                    return result;
+                }
+            }
+            return 0;
+        }
+        if (Array.isArray(a) || Array.isArray(b)) {
+            return 0;
+        }
+        if (typeof a === 'number' && typeof b === 'number') {
+            return a - b;
+        }
+        if (typeof a === 'number' || typeof b === 'number') {
+            return typeof a === 'number' ? -1 : 1;
+        }
+        return a.localeCompare(b);
     }
 
     /**
-     * Get filename from a tab
+     * Merge all editor groups into the first one
      */
-    private getFileName(tab: vscode.Tab): string {
-        let filePath = '';
-        
-        if (tab.input instanceof vscode.TabInputText) {
-            filePath = tab.input.uri.fsPath;
-        } else if (tab.input instanceof vscode.TabInputTextDiff) {
-            filePath = tab.input.modified.fsPath;
-        } else {
-            // For other tab types, use label
-            return tab.label.toLowerCase();
+    private async consolidateGroups(): Promise<void> {
+        if (this.tabGroups.all.length <= 1) {
+            return;
         }
-        
-        return path.basename(filePath).toLowerCase();
+
+        await vscode.commands.executeCommand('workbench.action.focusFirstEditorGroup');
+        await vscode.commands.executeCommand('workbench.action.joinAllGroups');
+        await TabEvents.waitFor(() => this.tabGroups.all.length === 1);
     }
 
     /**
-     * Get file extension from tab info
+     * Get all open tabs across all tab groups
      */
-    private getFileExtensionFromTabInfo(tabInfo: {
-        uri?: vscode.Uri;
-        originalUri?: vscode.Uri;
-        modifiedUri?: vscode.Uri;
-        label: string;
-    }): string {
-        let filePath = '';
+    private getAllTabs(): vscode.Tab[] {
+        const allTabs: vscode.Tab[] = [];
         
-        if (tabInfo.uri && !tabInfo.originalUri) {
-            filePath = tabInfo.uri.fsPath;
-        } else if (tabInfo.modifiedUri) {
-            filePath = tabInfo.modifiedUri.fsPath;
-        } else {
-            filePath = tabInfo.label;
+        for (const tabGroup of this.tabGroups.all) {
+            allTabs.push(...tabGroup.tabs);
         }
         
+        return allTabs;
+    }
+
+    /**
+     * Get file extension from a tab
+     */
+    private getFileExtension(tab: vscode.Tab): string {
+        // For tabs without a file, try to extract from label
+        const filePath = this.tabInputService.getTabUri(tab)?.fsPath ?? tab.label;
+        
         const ext = path.extname(filePath);
         return ext.startsWith('.') ? ext.substring(1).toLowerCase() : '';
     }
 
     /**
-     * Get filename from tab info
+     * Get filename from a tab
      */
-    private getFileNameFromTabInfo(tabInfo: {
-        uri?: vscode.Uri;
-        originalUri?: vscode.Uri;
-        modifiedUri?: vscode.Uri;
-        label: string;
-    }): string {
-        let filePath = '';
-        
-        if (tabInfo.uri && !tabInfo.originalUri) {
-            filePath = tabInfo.uri.fsPath;
-        } else if (tabInfo.modifiedUri) {
-            filePath = tabInfo.modifiedUri.fsPath;
-        } else {
-            return tabInfo.label.toLowerCase();
+    private getFileName(tab: vscode.Tab): string {
+        const uri = this.tabInputService.getTabUri(tab);
+        if (!uri) {
+            // For tabs without a file, use label
+            return tab.label.toLowerCase();
         }
         
-        return path.basename(filePath).toLowerCase();
+        return path.basename(uri.fsPath).toLowerCase();
     }
 
+    /**
+     * Split a tab's file name into its stem and role, e.g. `Button.test.tsx` into `button` and `test`.
+     * Files without one of the suffixes have the role `main`.
+     */
+    private splitStem(tab: vscode.Tab, suffixes: string[]): { stem: string, role: string } {
+        const fileName = this.getFileName(tab);
+        let stem = fileName.slice(0, fileName.length - path.extname(fileName).length) || fileName;
+        let role = 'main';
+
+        // Strip suffixes from the end; the one closest to the stem decides the role (`a.stories.test` -> `stories`)
+        for (let suffix = path.extname(stem).slice(1); suffix && suffixes.includes(suffix); suffix = path.extname(stem).slice(1)) {
+            stem = stem.slice(0, stem.length - suffix.length - 1);
+            role = suffix;
+        }
 
+        return { stem, role };
+    }
 
     /**
      * Get statistics about current tab organization
@@ -332,4 +445,4 @@ export class TabSortingService {
             tabsByExtension
         };
     }
-}
\ No newline at end of file
+}
@@ -1,43 +1,300 @@
 import * as vscode from 'vscode';
-import { TabWorkspace, TabWorkspaceState, TabInfo } from '../types';
+import * as path from 'path';
+import { TabLayoutSnapshot, TabWorkspace, TabWorkspaceState, TabWorkspaceGroup, TabWorkspaceTab, TextTabInput } from '../types';
 import { GitignoreService } from './gitignoreService';
+import { TabInputService } from './tabInputService';
+import { SharedWorkspaceService } from './sharedWorkspaceService';
+import { TabLayoutService } from './tabLayoutService';
+import { TabOperationJournalService } from './tabOperationJournalService';
+import { ConfigurationManager } from '../utils/configurationManager';
 import { Logger } from '../utils/logger';
+import { TabEvents } from '../utils/tabEvents';
+
+/**
+ * Tab as persisted in extension state. Older versions stored a single `uri` instead of a typed input.
+ */
+type StoredTabWorkspaceTab = Omit<TabWorkspaceTab, 'input' | 'label'> & {
+    input?: TabWorkspaceTab['input'];
+    label?: string;
+    uri?: string;
+};
+
+/**
+ * Editor group as persisted in extension state. Older versions stored plain URI strings
+ * without per-tab metadata.
+ */
+type StoredTabWorkspaceGroup = Omit<TabWorkspaceGroup, 'tabs' | 'isActive'> & {
+    tabs: Array<StoredTabWorkspaceTab | string>;
+    isActive?: boolean;
+};
+
+/**
+ * Workspace as persisted in extension state. Workspaces saved by older versions
+ * only have a flat `tabs` list and no groups.
+ */
+type StoredTabWorkspace = Omit<TabWorkspace, 'groups'> & {
+    groups?: StoredTabWorkspaceGroup[];
+    tabs?: string[];
+};
+
+/**
+ * Saved workspaces of all scopes, persisted in global state
+ */
+interface StoredTabWorkspaceState {
+    workspaces: StoredTabWorkspace[];
+}
+
+/**
+ * Per-window workspace session, persisted in workspace state
+ */
+interface StoredTabWorkspaceSession {
+    currentWorkspace?: string;
+    currentWorkspaceScope?: string;
+    previousWorkspace?: StoredTabWorkspace;
+}
 
 /**
  * Service for managing tab workspaces - saving and loading collections of open tabs
  */
 export class TabWorkspaceService {
+    public static readonly GLOBAL_SCOPE = 'global';
     private static readonly STATE_KEY = 'cleanx.tabWorkspaces';
+    private static readonly SESSION_KEY = 'cleanx.tabWorkspaceSession';
+    private static readonly TAB_SYNC_DELAY = 1000; // Debounce for tracking tab changes of the current workspace
     private gitignoreService: GitignoreService;
+    private tabInputService: TabInputService;
+    private sharedWorkspaceService: SharedWorkspaceService;
+    private tabSyncTimer?: ReturnType<typeof setTimeout>;
+    private hasDivergedTabs = false;
 
-    constructor(private readonly context: vscode.ExtensionContext) {
+    constructor(
+        private readonly context: vscode.ExtensionContext,
+        private readonly layoutService: TabLayoutService,
+        private readonly journal: TabOperationJournalService
+    ) {
         this.gitignoreService = new GitignoreService();
+        this.tabInputService = new TabInputService();
+        this.sharedWorkspaceService = new SharedWorkspaceService(this.tabInputService);
+        context.subscriptions.push(this.gitignoreService, this.sharedWorkspaceService);
+        this.setupTabTracking();
     }
 
     /**
      * Get the current tab workspace state
      */
     private getState(): TabWorkspaceState {
-        return this.context.globalState.get<TabWorkspaceState>(TabWorkspaceService.STATE_KEY, {
-            workspaces: [],
-            currentWorkspace: undefined,
-            previousWorkspace: undefined
+        const state = this.context.globalState.get<StoredTabWorkspaceState>(TabWorkspaceService.STATE_KEY, {
+            workspaces: []
         });
+        const session = this.context.workspaceState.get<StoredTabWorkspaceSession>(TabWorkspaceService.SESSION_KEY, {});
+
+        return {
+            workspaces: state.workspaces.map(workspace => this.normalizeWorkspace(workspace)),
+            currentWorkspace: session.currentWorkspace,
+            currentWorkspaceScope: session.currentWorkspaceScope,
+            previousWorkspace: session.previousWorkspace ? this.normalizeWorkspace(session.previousWorkspace) : undefined
+        };
+    }
+
+    /**
+     * Get the workspaces defined in the shared `.cleanx/workspaces.json` files
+     */
+    private getSharedWorkspaces(): TabWorkspace[] {
+        return this.sharedWorkspaceService.getWorkspaces().map(({ workspace, modified }) => this.normalizeWorkspace({
+            ...workspace,
+            scope: SharedWorkspaceService.SCOPE,
+            createdAt: new Date(workspace.createdAt ?? modified),
+            lastModified: new Date(workspace.lastModified ?? modified)
+        }));
+    }
+
+    /**
+     * Get personal and shared workspaces together
+     */
+    private getAllWorkspaces(state: TabWorkspaceState): TabWorkspace[] {
+        return [...state.workspaces, ...this.getSharedWorkspaces()];
+    }
+
+    /**
+     * Check whether a workspace lives in a shared workspaces file
+     */
+    public static isShared(workspace: TabWorkspace): boolean {
+        return workspace.scope === SharedWorkspaceService.SCOPE;
+    }
+
+    /**
+     * Upgrade a stored workspace to the grouped format.
+     * Legacy workspaces with a flat tab list are restored into the first editor group.
+     */
+    private normalizeWorkspace(workspace: StoredTabWorkspace): TabWorkspace {
+        const { tabs, groups, ...rest } = workspace;
+        const storedGroups: StoredTabWorkspaceGroup[] = groups ?? [{ viewColumn: vscode.ViewColumn.One, tabs: tabs ?? [] }];
+        const normalized: TabWorkspace = {
+            ...rest,
+            groups: storedGroups.map((group, index) => ({
+                viewColumn: group.viewColumn,
+                tabs: group.tabs.map(tab => this.normalizeTab(tab)),
+                isActive: group.isActive ?? index === 0
+            }))
+        };
+
+        // Legacy workspaces have no scope: claim them for this window if their files live here
+        if (normalized.scope === undefined && this.belongsToCurrentFolders(normalized)) {
+            normalized.scope = this.getCurrentScope();
+        }
+
+        return normalized;
+    }
+
+    /**
+     * Check whether any file of a workspace lives inside one of the open workspace folders
+     */
+    private belongsToCurrentFolders(workspace: TabWorkspace): boolean {
+        return workspace.groups.some(group => group.tabs.some(tab =>
+            this.tabInputService.getUris(tab.input).some(uri =>
+                uri.scheme === 'file' && vscode.workspace.getWorkspaceFolder(uri) !== undefined
+            )
+        ));
+    }
+
+    /**
+     * Upgrade a stored tab to the typed input format. Legacy tabs only stored a file URI.
+     */
+    private normalizeTab(tab: StoredTabWorkspaceTab | string): TabWorkspaceTab {
+        const storedTab: StoredTabWorkspaceTab = typeof tab === 'string'
+            ? { uri: tab, isPinned: false, isPreview: false, isActive: false }
+            : tab;
+        const { uri, input, label, ...rest } = storedTab;
+        const tabInput = input
+            ? this.tabInputService.normalizeInput(input)
+            : { kind: 'text' as const, uri: this.tabInputService.normalizeWorkspaceUri(uri ?? '') };
+
+        return {
+            ...rest,
+            input: tabInput,
+            label: label ?? this.tabInputService.getDefaultLabel(tabInput)
+        };
+    }
+
+    /**
+     * Rewrite stored workspaces in the current format, e.g. absolute file URIs become
+     * folder-relative paths for files inside the open workspace folders
+     */
+    public async migrateStoredWorkspaces(): Promise<void> {
+        try {
+            const stored = this.context.globalState.get<StoredTabWorkspaceState>(TabWorkspaceService.STATE_KEY);
+            if (!stored) {
+                return;
+            }
+
+            const state = this.getState();
+            if (JSON.stringify(stored.workspaces) !== JSON.stringify(state.workspaces)) {
+                await this.setState(state);
+                Logger.info('Migrated stored tab workspaces to the current format');
+            }
+        } catch (error) {
+            Logger.error('Failed to migrate stored tab workspaces', error);
+        }
     }
 
     /**
      * Update the tab workspace state
      */
     private async setState(state: TabWorkspaceState): Promise<void> {
-        await this.context.globalState.update(TabWorkspaceService.STATE_KEY, state);
+        const storedState: StoredTabWorkspaceState = { workspaces: state.workspaces };
+        const session: StoredTabWorkspaceSession = {
+            currentWorkspace: state.currentWorkspace,
+            currentWorkspaceScope: state.currentWorkspaceScope,
+            previousWorkspace: state.previousWorkspace
+        };
+
+        await this.context.globalState.update(TabWorkspaceService.STATE_KEY, storedState);
+        await this.context.workspaceState.update(TabWorkspaceService.SESSION_KEY, session);
     }
 
     /**
-     * Get all saved workspaces, sorted by last modified date
+     * Get the scope identifying the open folder or multi-root workspace.
+     * Windows without a folder use the global scope.
      */
-    public getWorkspaces(): TabWorkspace[] {
+    public getCurrentScope(): string {
+        const workspaceFile = vscode.workspace.workspaceFile;
+        if (workspaceFile && workspaceFile.scheme !== 'untitled') {
+            return workspaceFile.toString();
+        }
+
+        const workspaceFolders = vscode.workspace.workspaceFolders;
+        if (workspaceFolders && workspaceFolders.length > 0) {
+            return workspaceFolders.map(folder => folder.uri.toString()).sort().join('|');
+        }
+
+        return TabWorkspaceService.GLOBAL_SCOPE;
+    }
+
+    /**
+     * Get the scope new workspaces are saved to, based on the `defaultWorkspaceScope` setting
+     */
+    public getDefaultScope(): string {
+        return ConfigurationManager.getConfig().defaultWorkspaceScope === 'global'
+            ? TabWorkspaceService.GLOBAL_SCOPE
+            : this.getCurrentScope();
+    }
+
+    /**
+     * Get a readable name for a scope
+     */
+    public getScopeLabel(scope: string | undefined): string {
+        if (scope === undefined) {
+            return 'Unassigned';
+        }
+        if (scope === TabWorkspaceService.GLOBAL_SCOPE) {
+            return 'Global';
+        }
+        if (scope === SharedWorkspaceService.SCOPE) {
+            return `Shared (${SharedWorkspaceService.FILE_PATH})`;
+        }
+        if (scope === this.getCurrentScope()) {
+            return 'This Workspace';
+        }
+
+        return scope
+            .split('|')
+            .map(uri => path.posix.basename(vscode.Uri.parse(uri).path).replace(/\.code-workspace$/, ''))
+            .join(', ');
+    }
+
+    /**
+     * Check whether a workspace is visible in this window by default (current scope or global)
+     */
+    public isInCurrentScope(workspace: TabWorkspace): boolean {
+        return workspace.scope === this.getCurrentScope()
+            || workspace.scope === TabWorkspaceService.GLOBAL_SCOPE
+            || workspace.scope === SharedWorkspaceService.SCOPE;
+    }
+
+    /**
+     * Find a workspace by name. Without an explicit scope, the current scope wins over the global one.
+     */
+    private findWorkspace(workspaces: TabWorkspace[], name: string, scope?: string): TabWorkspace | undefined {
+        const candidates = workspaces.filter(w => w.name === name);
+        if (scope !== undefined) {
+            return candidates.find(w => w.scope === scope);
+        }
+
+        const currentScope = this.getCurrentScope();
+        return candidates.find(w => w.scope === currentScope)
+            ?? candidates.find(w => w.scope === TabWorkspaceService.GLOBAL_SCOPE)
+            ?? candidates.find(w => w.scope === SharedWorkspaceService.SCOPE)
+            ?? candidates[0];
+    }
+
+    /**
+     * Get saved workspaces, sorted by last modified date
+     * @param includeAllScopes Whether to include workspaces of other folders and unassigned legacy workspaces
+     */
+    public getWorkspaces(includeAllScopes: boolean = false): TabWorkspace[] {
         const state = this.getState();
-        return state.workspaces
+        return this.getAllWorkspaces(state)
+            .filter(workspace => includeAllScopes || this.isInCurrentScope(workspace))
             .map(workspace => ({
                 ...workspace,
                 createdAt: new Date(workspace.createdAt),
@@ -53,61 +310,81 @@ export class TabWorkspaceService {
         return this.getState().currentWorkspace;
     }
 
+    /**
+     * Get the scope of the currently active workspace
+     */
+    public getCurrentWorkspaceScope(): string | undefined {
+        return this.getState().currentWorkspaceScope;
+    }
+
+    /**
+     * Count all tabs of a workspace across its editor groups
+     */
+    public static getTabCount(workspace: TabWorkspace): number {
+        return workspace.groups.reduce((count, group) => count + group.tabs.length, 0);
+    }
+
     /**
      * Save current open tabs as a workspace
      * @param name Name for the workspace
      * @param isAutoSave Whether this is an automatic save (for previousWorkspace)
+     * @param scope Scope to save to, defaults to the `defaultWorkspaceScope` setting
+     * @param branch Git branch, for the automatic workspace of a branch
      * @returns The saved workspace
      */
-    public async saveCurrentTabsAsWorkspace(name: string, isAutoSave: boolean = false): Promise<TabWorkspace> {
+    public async saveCurrentTabsAsWorkspace(name: string, isAutoSave: boolean = false, scope: string = this.getDefaultScope(), branch?: string): Promise<TabWorkspace> {
         try {
-            // Get all currently open tabs
-            const allTabs = this.getAllTabs();
-            const tabInfos = this.extractTabInfos(allTabs);
-            
-            // Extract file paths from tabs
-            let filePaths: string[] = [];
-            for (const tabInfo of tabInfos) {
-                if (tabInfo.uri && !tabInfo.originalUri) {
-                    // Regular file tab
-                    filePaths.push(tabInfo.uri.toString());
-                } else if (tabInfo.modifiedUri) {
-                    // Diff editor - save the modified file
-                    filePaths.push(tabInfo.modifiedUri.toString());
-                }
-            }
-
-            // Keep all files in workspaces (don't filter gitignored files)
-            const filteredPaths = filePaths;
+            const groups = this.layoutService.captureGroups();
 
             const workspace: TabWorkspace = {
                 name,
-                tabs: filteredPaths,
+                scope,
+                branch,
+                groups,
+                layout: await this.layoutService.getEditorLayout(),
                 createdAt: new Date(),
                 lastModified: new Date()
             };
 
-            if (!isAutoSave) {
+            if (!isAutoSave && scope === SharedWorkspaceService.SCOPE) {
+                // Save into the shared workspaces file
+                await this.sharedWorkspaceService.saveWorkspaces(this.sharedWorkspaceService.getDefiningFolder(name), [workspace]);
+
+                const state = this.getState();
+                state.currentWorkspace = name;
+                state.currentWorkspaceScope = scope;
+                await this.setState(state);
+                this.hasDivergedTabs = false;
+
+                Logger.info(`Saved shared workspace "${name}" with ${TabWorkspaceService.getTabCount(workspace)} tabs`);
+            } else if (!isAutoSave) {
                 // Save as a named workspace
                 const state = this.getState();
                 
-                // Remove existing workspace with same name
-                state.workspaces = state.workspaces.filter(w => w.name !== name);
+                // Replace existing workspace with same name in the same scope, keeping its creation date and branch
+                const existing = state.workspaces.find(w => w.name === name && w.scope === scope);
+                if (existing) {
+                    workspace.createdAt = new Date(existing.createdAt);
+                    workspace.branch ??= existing.branch;
+                }
+                state.workspaces = state.workspaces.filter(w => w !== existing);
                 
                 // Add the new workspace
                 state.workspaces.push(workspace);
                 state.currentWorkspace = name;
+                state.currentWorkspaceScope = scope;
                 
                 await this.setState(state);
+                this.hasDivergedTabs = false;
                 
-                Logger.info(`Saved workspace "${name}" with ${workspace.tabs.length} tabs`);
+                Logger.info(`Saved workspace "${name}" with ${TabWorkspaceService.getTabCount(workspace)} tabs in ${groups.length} groups`);
             } else {
                 // Save as previous workspace (don't add to workspaces list)
                 const state = this.getState();
                 state.previousWorkspace = workspace;
                 await this.setState(state);
                 
-                Logger.debug(`Auto-saved previous workspace with ${workspace.tabs.length} tabs`);
+                Logger.debug(`Auto-saved previous workspace with ${TabWorkspaceService.getTabCount(workspace)} tabs`);
             }
 
             return workspace;
@@ -117,16 +394,64 @@ export class TabWorkspaceService {
         }
     }
 
+    /**
+     * Name of the automatic workspace of a Git branch
+     */
+    public static getBranchWorkspaceName(branch: string): string {
+        return `Branch: ${branch}`;
+    }
+
+    /**
+     * Find the automatic workspace of a Git branch in the current scope
+     */
+    public getBranchWorkspace(branch: string): TabWorkspace | undefined {
+        const scope = this.getCurrentScope();
+        return this.getState().workspaces.find(w => w.branch === branch && w.scope === scope);
+    }
+
+    /**
+     * Save the open tabs as the automatic workspace of a Git branch, in the current scope
+     */
+    public saveBranchWorkspace(branch: string): Promise<TabWorkspace> {
+        const scope = this.getCurrentScope();
+        const name = this.getBranchWorkspace(branch)?.name ?? this.getUnusedBranchWorkspaceName(branch, scope);
+        return this.saveCurrentTabsAsWorkspace(name, false, scope, branch);
+    }
+
+    /**
+     * Name for a new branch workspace that doesn't replace a workspace the user saved under the same name,
+     * e.g. `Branch: main (2)`
+     */
+    private getUnusedBranchWorkspaceName(branch: string, scope: string): string {
+        const names = new Set(this.getState().workspaces.filter(w => w.scope === scope).map(w => w.name));
+        const baseName = TabWorkspaceService.getBranchWorkspaceName(branch);
+
+        let name = baseName;
+        for (let count = 2; names.has(name); count++) {
+            name = `${baseName} (${count})`;
+        }
+        return name;
+    }
+
     /**
      * Load a workspace by name
      * @param name Name of the workspace to load
      * @param autoSaveCurrent Whether to auto-save current tabs before loading
-     * @returns Object with opened and skipped counts
+     * @param scope Scope of the workspace, defaults to the current scope then global
+     * @returns Object with opened and skipped counts, or undefined if cancelled because of unsaved tabs
+     */
+    public async loadWorkspace(name: string, autoSaveCurrent: boolean = false, scope?: string): Promise<{opened: number, skipped: number} | undefined> {
+        // Tab events raised by the load itself must not count as user changes
+        return TabEvents.runOwnChange(() => this.applyWorkspace(name, autoSaveCurrent, scope));
+    }
+
+    /**
+     * Bring open tabs in line with a saved workspace
      */
-    public async loadWorkspace(name: string, autoSaveCurrent: boolean = false): Promise<{opened: number, skipped: number}> {
+    private async applyWorkspace(name: string, autoSaveCurrent: boolean, scope?: string): Promise<{opened: number, skipped: number} | undefined> {
         try {
             const state = this.getState();
-            const workspaceData = state.workspaces.find(w => w.name === name);
+            const workspaceData = this.findWorkspace(this.getAllWorkspaces(state), name, scope);
             
             if (!workspaceData) {
                 throw new Error(`Workspace "${name}" not found`);
@@ -147,65 +472,19 @@ export class TabWorkspaceService {
                 }
             }
 
-            // Close all current tabs
-            const allTabs = this.getAllTabs();
-            if (allTabs.length > 0) {
-                await vscode.window.tabGroups.close(allTabs, true);
-                // Wait for tabs to close
-                await new Promise(resolve => setTimeout(resolve, 100));
-            }
-
-            // Open all tabs from the workspace
-            let openedCount = 0;
-            let skippedCount = 0;
-            for (const tabUriString of workspace.tabs) {
-                try {
-                    const uri = vscode.Uri.parse(tabUriString);
-                    
-                    if (uri.scheme === 'file') {
-                        // Check if file still exists
-                        try {
-                            // Check if file exists
-                            await vscode.workspace.fs.stat(uri);
-                            
-                            // Try to open the file
-                            const document = await vscode.workspace.openTextDocument(uri);
-                            await vscode.window.showTextDocument(document, {
-                                preview: false,
-                                preserveFocus: true
-                            });
-                            openedCount++;
-                            Logger.debug(`Successfully opened: ${tabUriString}`);
-                        } catch (fileError) {
-                            // File doesn't exist or can't be opened
-                            const errorMessage = fileError instanceof Error ? fileError.message : 'Unknown error';
-                            
-                            // Check if it's a binary file error
-                            if (errorMessage.includes('binary') || errorMessage.includes('cannot be opened as text')) {
-                                Logger.debug(`Skipped binary file: ${tabUriString}`);
-                            } else {
-                                Logger.error(`Failed to open file: ${tabUriString} - ${errorMessage}`, fileError);
-                            }
-                            skippedCount++;
-                        }
-                    } else {
-                        // Non-file URI (might be from extensions, etc.)
-                        Logger.debug(`Skipping non-file URI: ${tabUriString}`);
-                        skippedCount++;
-                    }
-                    
-                    // Small delay between opening tabs
-                    await new Promise(resolve => setTimeout(resolve, 50));
-                } catch (error) {
-                    Logger.error(`Failed to process tab: ${tabUriString}`, error);
-                    skippedCount++;
-                }
+            const result = await this.layoutService.applyLayout(workspace, `Loading workspace "${name}"`,
+                () => this.journal.record(`Load workspace "${name}"`));
+            if (!result) {
+                return undefined;
             }
+            const { opened: openedCount, skipped: skippedCount } = result;
 
             // Update current workspace
             state.currentWorkspace = name;
+            state.currentWorkspaceScope = workspace.scope;
             workspace.lastModified = new Date();
             await this.setState(state);
+            this.hasDivergedTabs = false;
 
             if (skippedCount > 0) {
                 Logger.info(`Loaded workspace "${name}" with ${openedCount} tabs (${skippedCount} files skipped - may be gitignored or deleted)`);
@@ -217,30 +496,169 @@ export class TabWorkspaceService {
         } catch (error) {
             Logger.error(`Failed to load workspace "${name}"`, error);
             throw error;
+        } finally {
+            this.cancelTabSync();
+        }
+    }
+
+    /**
+     * Replace the open tabs with an unnamed tab set of the given files in a single editor group.
+     * The current workspace is unset; the previous tabs can be brought back with undo.
+     * @param uris Files to open, in tab order
+     * @param operation Name of the operation, shown for unsaved tabs and recorded for undo
+     * @returns Object with opened and skipped counts, or undefined if cancelled because of unsaved tabs
+     */
+    public async openTabSet(uris: vscode.Uri[], operation: string): Promise<{opened: number, skipped: number} | undefined> {
+        try {
+            const tabs = uris.map((uri, index): TabWorkspaceTab => {
+                const input: TextTabInput = { kind: 'text', uri: this.tabInputService.toWorkspaceUri(uri) };
+                return { input, label: this.tabInputService.getDefaultLabel(input), isPinned: false, isPreview: false, isActive: index === 0 };
+            });
+            const snapshot: TabLayoutSnapshot = {
+                groups: [{ viewColumn: vscode.ViewColumn.One, tabs, isActive: true }],
+                layout: { orientation: 0, groups: [{}] }
+            };
+
+            const result = await TabEvents.runOwnChange(() => this.layoutService.applyLayout(snapshot, operation,
+                () => this.journal.record(operation)));
+            if (!result) {
+                return undefined;
+            }
+
+            await this.clearCurrentWorkspace();
+            Logger.info(`${operation}: opened ${result.opened} tabs${result.skipped > 0 ? `, skipped ${result.skipped}` : ''}`);
+
+            return result;
+        } catch (error) {
+            Logger.error(`Failed to ${operation.toLowerCase()}`, error);
+            throw error;
+        } finally {
+            this.cancelTabSync();
+        }
+    }
+
+    /**
+     * Check whether open tabs differ from the current workspace (only tracked while auto-update is off)
+     */
+    public hasUnsavedTabChanges(): boolean {
+        return this.hasDivergedTabs && this.getCurrentWorkspaceName() !== undefined;
+    }
+
+    /**
+     * Watch tab changes to keep the current workspace in sync (or flag it as diverged)
+     */
+    private setupTabTracking(): void {
+        const scheduleTabSync = () => this.scheduleTabSync();
+
+        this.context.subscriptions.push(
+            vscode.window.tabGroups.onDidChangeTabs(scheduleTabSync),
+            vscode.window.tabGroups.onDidChangeTabGroups(scheduleTabSync),
+            { dispose: () => this.cancelTabSync() }
+        );
+    }
+
+    /**
+     * Debounce syncing of the current workspace after tab changes
+     */
+    private scheduleTabSync(): void {
+        if (TabEvents.isOwnChange() || !this.getCurrentWorkspaceName()) {
+            return;
+        }
+
+        this.cancelTabSync();
+        this.tabSyncTimer = setTimeout(() => void this.syncCurrentWorkspace(), TabWorkspaceService.TAB_SYNC_DELAY);
+    }
+
+    private cancelTabSync(): void {
+        if (this.tabSyncTimer) {
+            clearTimeout(this.tabSyncTimer);
+            this.tabSyncTimer = undefined;
+        }
+    }
+
+    /**
+     * Compare open tabs with the current workspace. With `autoUpdateWorkspace` enabled the
+     * workspace is re-saved, otherwise it is only flagged as diverged.
+     * Shared workspaces are always only flagged, they are committed files others work with.
+     */
+    private async syncCurrentWorkspace(): Promise<void> {
+        this.tabSyncTimer = undefined;
+        if (TabEvents.isOwnChange()) {
+            return;
+        }
+
+        try {
+            const state = this.getState();
+            if (!state.currentWorkspace) {
+                return;
+            }
+
+            const workspace = this.findWorkspace(this.getAllWorkspaces(state), state.currentWorkspace, state.currentWorkspaceScope);
+            if (!workspace) {
+                return;
+            }
+
+            if (this.haveSameTabs(workspace.groups, this.layoutService.captureGroups())) {
+                this.hasDivergedTabs = false;
+                return;
+            }
+
+            if (ConfigurationManager.getConfig().autoUpdateWorkspace && workspace.scope !== SharedWorkspaceService.SCOPE) {
+                // Claim a legacy workspace for this window first, so the save replaces it instead of adding a copy
+                if (workspace.scope === undefined) {
+                    workspace.scope = this.getCurrentScope();
+                    await this.setState(state);
+                }
+
+                await this.saveCurrentTabsAsWorkspace(workspace.name, false, workspace.scope);
+                Logger.debug(`Auto-updated workspace "${workspace.name}"`);
+            } else {
+                this.hasDivergedTabs = true;
+            }
+        } catch (error) {
+            Logger.error('Failed to sync current workspace with open tabs', error);
         }
     }
 
+    /**
+     * Check whether two sets of groups contain the same tabs in the same order
+     * (cursor and scroll positions are ignored)
+     */
+    private haveSameTabs(a: TabWorkspaceGroup[], b: TabWorkspaceGroup[]): boolean {
+        const toKey = (groups: TabWorkspaceGroup[]) => JSON.stringify(groups
+            .filter(group => group.tabs.length > 0)
+            .map(group => group.tabs.map(tab => [tab.input, tab.isPinned])));
+
+        return toKey(a) === toKey(b);
+    }
+
     /**
      * Delete a workspace by name
+     * @param scope Scope of the workspace, defaults to the current scope then global
      */
-    public async deleteWorkspace(name: string): Promise<void> {
+    public async deleteWorkspace(name: string, scope?: string): Promise<void> {
         try {
             const state = this.getState();
-            const initialCount = state.workspaces.length;
+            const workspace = this.findWorkspace(this.getAllWorkspaces(state), name, scope);
             
-            state.workspaces = state.workspaces.filter(w => w.name !== name);
+            if (!workspace) {
+                throw new Error(`Workspace "${name}" not found`);
+            }
+
+            if (TabWorkspaceService.isShared(workspace)) {
+                await this.sharedWorkspaceService.removeWorkspace(name);
+            }
+
+            state.workspaces = state.workspaces.filter(w => w !== workspace);
             
-            if (state.currentWorkspace === name) {
+            if (this.isCurrentWorkspace(state, workspace)) {
                 state.currentWorkspace = undefined;
+                state.currentWorkspaceScope = undefined;
             }
             
             await this.setState(state);
             
-            if (state.workspaces.length < initialCount) {
-                Logger.info(`Deleted workspace "${name}"`);
-            } else {
-                throw new Error(`Workspace "${name}" not found`);
-            }
+            Logger.info(`Deleted workspace "${name}"`);
         } catch (error) {
             Logger.error(`Failed to delete workspace "${name}"`, error);
             throw error;
@@ -249,25 +667,31 @@ export class TabWorkspaceService {
 
     /**
      * Rename a workspace
+     * @param scope Scope of the workspace, defaults to the current scope then global
      */
-    public async renameWorkspace(oldName: string, newName: string): Promise<void> {
+    public async renameWorkspace(oldName: string, newName: string, scope?: string): Promise<void> {
         try {
             const state = this.getState();
-            const workspace = state.workspaces.find(w => w.name === oldName);
+            const workspace = this.findWorkspace(this.getAllWorkspaces(state), oldName, scope);
             
             if (!workspace) {
                 throw new Error(`Workspace "${oldName}" not found`);
             }
             
-            // Check if new name already exists
-            if (state.workspaces.some(w => w.name === newName)) {
+            // Check if new name already exists in the same scope
+            if (this.getAllWorkspaces(state).some(w => w.name === newName && w.scope === workspace.scope)) {
                 throw new Error(`Workspace "${newName}" already exists`);
             }
+
+            if (TabWorkspaceService.isShared(workspace)) {
+                await this.sharedWorkspaceService.renameWorkspace(oldName, newName);
+            }
             
+            const wasCurrent = this.isCurrentWorkspace(state, workspace);
             workspace.name = newName;
             workspace.lastModified = new Date();
             
-            if (state.currentWorkspace === oldName) {
+            if (wasCurrent) {
                 state.currentWorkspace = newName;
             }
             
@@ -280,11 +704,104 @@ export class TabWorkspaceService {
         }
     }
 
+    /**
+     * Move a workspace to another scope (e.g. make it global)
+     * @param name Name of the workspace
+     * @param scope Current scope of the workspace
+     * @param targetScope Scope to move the workspace to
+     */
+    public async moveWorkspaceToScope(name: string, scope: string | undefined, targetScope: string): Promise<void> {
+        try {
+            const state = this.getState();
+            const workspace = this.findWorkspace(state.workspaces, name, scope);
+            
+            if (!workspace) {
+                throw new Error(`Workspace "${name}" not found`);
+            }
+
+            if (TabWorkspaceService.isShared(workspace) || targetScope === SharedWorkspaceService.SCOPE) {
+                throw new Error('Use the export and import commands to move workspaces in or out of the shared file');
+            }
+
+            if (state.workspaces.some(w => w.name === name && w.scope === targetScope)) {
+                throw new Error(`Workspace "${name}" already exists in ${this.getScopeLabel(targetScope)}`);
+            }
+
+            const wasCurrent = this.isCurrentWorkspace(state, workspace);
+            workspace.scope = targetScope;
+            workspace.lastModified = new Date();
+
+            if (wasCurrent) {
+                state.currentWorkspaceScope = targetScope;
+            }
+
+            await this.setState(state);
+
+            Logger.info(`Moved workspace "${name}" to ${this.getScopeLabel(targetScope)}`);
+        } catch (error) {
+            Logger.error(`Failed to move workspace "${name}"`, error);
+            throw error;
+        }
+    }
+
+    /**
+     * Export workspaces to the shared `.cleanx/workspaces.json` file of a workspace folder
+     * @param workspaces Workspaces to export; existing entries with the same name are replaced
+     * @param folder Folder to write to
+     * @returns URI of the written file
+     */
+    public async exportWorkspaces(workspaces: TabWorkspace[], folder: vscode.WorkspaceFolder): Promise<vscode.Uri> {
+        try {
+            await this.sharedWorkspaceService.saveWorkspaces(folder, workspaces);
+            Logger.info(`Exported ${workspaces.length} workspaces to ${folder.name}`);
+            return this.sharedWorkspaceService.getFileUri(folder);
+        } catch (error) {
+            Logger.error('Failed to export workspaces', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Read the workspaces of a shared workspaces file without importing them
+     */
+    public async readWorkspacesFile(uri: vscode.Uri): Promise<TabWorkspace[]> {
+        const workspaces = await this.sharedWorkspaceService.readFile(uri, vscode.workspace.getWorkspaceFolder(uri));
+        return workspaces.map(workspace => this.normalizeWorkspace({
+            ...workspace,
+            createdAt: new Date(workspace.createdAt ?? Date.now()),
+            lastModified: new Date(workspace.lastModified ?? Date.now())
+        }));
+    }
+
+    /**
+     * Import workspaces as personal workspaces, replacing personal workspaces with the same name
+     * @param workspaces Workspaces to import
+     * @param scope Scope to import into, defaults to the `defaultWorkspaceScope` setting
+     */
+    public async importWorkspaces(workspaces: TabWorkspace[], scope: string = this.getDefaultScope()): Promise<void> {
+        try {
+            const state = this.getState();
+            const names = new Set(workspaces.map(workspace => workspace.name));
+
+            state.workspaces = [
+                ...state.workspaces.filter(w => w.scope !== scope || !names.has(w.name)),
+                ...workspaces.map(workspace => ({ ...workspace, scope }))
+            ];
+
+            await this.setState(state);
+            Logger.info(`Imported ${workspaces.length} workspaces into ${this.getScopeLabel(scope)}`);
+        } catch (error) {
+            Logger.error('Failed to import workspaces', error);
+            throw error;
+        }
+    }
+
     /**
      * Get workspace by name
+     * @param scope Scope of the workspace, defaults to the current scope then global
      */
-    public getWorkspace(name: string): TabWorkspace | undefined {
-        const workspace = this.getState().workspaces.find(w => w.name === name);
+    public getWorkspace(name: string, scope?: string): TabWorkspace | undefined {
+        const workspace = this.findWorkspace(this.getAllWorkspaces(this.getState()), name, scope);
         if (workspace) {
             return {
                 ...workspace,
@@ -295,19 +812,28 @@ export class TabWorkspaceService {
         return undefined;
     }
 
+    /**
+     * Check whether a workspace is the currently active one
+     */
+    private isCurrentWorkspace(state: TabWorkspaceState, workspace: TabWorkspace): boolean {
+        return state.currentWorkspace === workspace.name && state.currentWorkspaceScope === workspace.scope;
+    }
+
     /**
      * Clear current workspace (doesn't delete, just unsets as current)
      */
     public async clearCurrentWorkspace(): Promise<void> {
         const state = this.getState();
         state.currentWorkspace = undefined;
+        state.currentWorkspaceScope = undefined;
         await this.setState(state);
+        this.hasDivergedTabs = false;
     }
 
     /**
      * Get all open tabs across all tab groups
      */
-    private getAllTabs(): vscode.Tab[] {
+    public getAllTabs(): vscode.Tab[] {
         const allTabs: vscode.Tab[] = [];
         
         for (const tabGroup of vscode.window.tabGroups.all) {
@@ -317,32 +843,6 @@ export class TabWorkspaceService {
         return allTabs;
     }
 
-    /**
-     * Extract tab information from VS Code tabs
-     */
-    private extractTabInfos(tabs: vscode.Tab[]): TabInfo[] {
-        return tabs.map(tab => {
-            const tabInfo: TabInfo = {
-                isActive: tab.isActive,
-                isPinned: tab.isPinned,
-                label: tab.label,
-                viewColumn: tab.group.viewColumn
-            };
-
-            if (tab.input instanceof vscode.TabInputText) {
-                tabInfo.uri = tab.input.uri;
-            } else if (tab.input instanceof vscode.TabInputTextDiff) {
-                tabInfo.originalUri = tab.input.original;
-                tabInfo.modifiedUri = tab.input.modified;
-            } else if (tab.input instanceof vscode.TabInputCustom) {
-                tabInfo.uri = tab.input.uri;
-                tabInfo.viewType = tab.input.viewType;
-            }
-
-            return tabInfo;
-        });
-    }
-
     /**
      * Get statistics about current workspaces
      */
@@ -353,7 +853,7 @@ export class TabWorkspaceService {
     } {
         const state = this.getState();
         return {
-            totalWorkspaces: state.workspaces.length,
+            totalWorkspaces: state.workspaces.filter(workspace => this.isInCurrentScope(workspace)).length,
             currentWorkspace: state.currentWorkspace,
             hasPreviousWorkspace: !!state.previousWorkspace
         };
@@ -361,8 +861,9 @@ export class TabWorkspaceService {
 
     /**
      * Restore the previous workspace (if available)
+     * @returns False if restoring was cancelled because of unsaved tabs
      */
-    public async restorePreviousWorkspace(): Promise<void> {
+    public async restorePreviousWorkspace(): Promise<boolean> {
         const state = this.getState();
         
         if (!state.previousWorkspace) {
@@ -370,19 +871,30 @@ export class TabWorkspaceService {
         }
 
         // Save the previous workspace as a named workspace
+        const previousWorkspace = state.previousWorkspace;
         const tempName = `restored-${Date.now()}`;
+        const scope = this.getCurrentScope();
         state.workspaces.push({
             ...state.previousWorkspace,
-            name: tempName
+            name: tempName,
+            scope
         });
         
-        // Load it
-        await this.loadWorkspace(tempName, false);
-        
         // Clear the previous workspace reference
         state.previousWorkspace = undefined;
         await this.setState(state);
         
+        // Load it
+        if (!(await this.loadWorkspace(tempName, false, scope))) {
+            // Cancelled because of unsaved tabs, keep the previous workspace for another attempt
+            const cancelledState = this.getState();
+            cancelledState.workspaces = cancelledState.workspaces.filter(w => w.name !== tempName || w.scope !== scope);
+            cancelledState.previousWorkspace = previousWorkspace;
+            await this.setState(cancelledState);
+            return false;
+        }
+        
         Logger.info(`Restored previous workspace as "${tempName}"`);
+        return true;
     }
 }
\ No newline at end of file
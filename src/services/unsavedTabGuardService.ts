@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import { UnsavedTabsAction } from '../types';
+import { ConfigurationManager } from '../utils/configurationManager';
+import { Logger } from '../utils/logger';
+
+/**
+ * Service that protects dirty and untitled editors before tabs are closed in bulk
+ */
+export class UnsavedTabGuardService {
+
+    /**
+     * Check whether closing a tab could lose unsaved work
+     */
+    public isUnsaved(tab: vscode.Tab): boolean {
+        return tab.isDirty || this.getDocumentUris(tab).some(uri => uri.scheme === 'untitled');
+    }
+
+    /**
+     * Apply the configured `cleanx.unsavedTabsAction` to tabs that are about to be closed
+     * @param tabs Tabs the operation wants to close
+     * @param operation Description of the operation, shown in the prompt
+     * @returns The tabs that can be closed safely, or undefined if the operation was cancelled
+     */
+    public async getClosableTabs(tabs: vscode.Tab[], operation: string): Promise<vscode.Tab[] | undefined> {
+        const unsavedTabs = tabs.filter(tab => this.isUnsaved(tab));
+        if (unsavedTabs.length === 0) {
+            return tabs;
+        }
+
+        const action = await this.chooseAction(unsavedTabs, operation);
+        switch (action) {
+            case 'saveAll': {
+                await this.saveTabs(unsavedTabs);
+                // Tabs that are still unsaved (failed or cancelled saves) or were replaced by
+                // their saved file (untitled documents) stay open
+                const openTabs = new Set(vscode.window.tabGroups.all.flatMap(tabGroup => tabGroup.tabs));
+                return tabs.filter(tab => openTabs.has(tab) && !this.isUnsaved(tab));
+            }
+            case 'keepOpen':
+                Logger.info(`${operation}: keeping ${unsavedTabs.length} unsaved tab(s) open`);
+                return tabs.filter(tab => !unsavedTabs.includes(tab));
+            default:
+                Logger.info(`${operation}: cancelled because of ${unsavedTabs.length} unsaved tab(s)`);
+                return undefined;
+        }
+    }
+
+    /**
+     * Use the configured action, asking the user when set to `ask`
+     */
+    private async chooseAction(unsavedTabs: vscode.Tab[], operation: string): Promise<UnsavedTabsAction> {
+        const action = ConfigurationManager.getConfig().unsavedTabsAction;
+        if (action !== 'ask') {
+            return action;
+        }
+
+        const labels = unsavedTabs.slice(0, 5).map(tab => tab.label).join(', ');
+        const more = unsavedTabs.length > 5 ? ` and ${unsavedTabs.length - 5} more` : '';
+        const choice = await vscode.window.showWarningMessage(
+            `${operation} would close ${unsavedTabs.length} tab${unsavedTabs.length === 1 ? '' : 's'} with unsaved changes`,
+            { modal: true, detail: `${labels}${more}` },
+            'Save All',
+            'Keep Unsaved Tabs Open'
+        );
+
+        if (choice === 'Save All') {
+            return 'saveAll';
+        }
+        return choice === 'Keep Unsaved Tabs Open' ? 'keepOpen' : 'cancel';
+    }
+
+    /**
+     * Save the documents behind the given tabs. Untitled documents prompt for a file name.
+     */
+    private async saveTabs(tabs: vscode.Tab[]): Promise<void> {
+        for (const tab of tabs) {
+            for (const uri of this.getDocumentUris(tab)) {
+                try {
+                    if (!(await vscode.workspace.save(uri))) {
+                        Logger.debug(`Document was not saved: ${uri.toString()}`);
+                    }
+                } catch (error) {
+                    Logger.error(`Failed to save ${uri.toString()}`, error);
+                }
+            }
+        }
+    }
+
+    /**
+     * Get the URIs of the editable documents shown in a tab
+     */
+    private getDocumentUris(tab: vscode.Tab): vscode.Uri[] {
+        const input = tab.input;
+        if (input instanceof vscode.TabInputText
+            || input instanceof vscode.TabInputCustom
+            || input instanceof vscode.TabInputNotebook) {
+            return [input.uri];
+        }
+        if (input instanceof vscode.TabInputTextDiff || input instanceof vscode.TabInputNotebookDiff) {
+            return [input.modified];
+        }
+        return [];
+    }
+}
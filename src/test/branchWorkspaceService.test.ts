@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { GitAPI, GitBranch, GitRepository } from '../types/git';
+import { BranchWorkspaceService } from '../services/branchWorkspaceService';
+import { GitRepositoryService } from '../services/gitRepositoryService';
+import { TabWorkspaceService } from '../services/tabWorkspaceService';
+import { createFakeContext, disposeContext } from './fixtures/fakeContext';
+import { initializeLogger } from './fixtures/logger';
+
+const root = vscode.Uri.file('/fake/repo');
+const folder: vscode.WorkspaceFolder = { uri: root, name: 'repo', index: 0 };
+
+/**
+ * Git extension API with one repository whose checked out branch the test changes
+ */
+function createFakeRepository(branch: string): { api: GitAPI, checkout(branch: string | undefined): void } {
+	const changed = new vscode.EventEmitter<void>();
+	const state = {
+		HEAD: { name: branch } as GitBranch | undefined,
+		mergeChanges: [],
+		indexChanges: [],
+		workingTreeChanges: [],
+		onDidChange: changed.event
+	};
+	const repository: GitRepository = { rootUri: root, state };
+
+	return {
+		api: {
+			repositories: [repository],
+			onDidOpenRepository: new vscode.EventEmitter<GitRepository>().event,
+			getRepository: () => repository
+		},
+		checkout: name => {
+			state.HEAD = name !== undefined ? { name } : { commit: '4b825dc' };
+			changed.fire();
+		}
+	};
+}
+
+/**
+ * Workspace service that logs the calls made to it. Branches get a workspace once they were saved.
+ * @param saveDelay Milliseconds saving takes, to catch overlapping switches
+ */
+function createFakeWorkspaceService(calls: string[], saveDelay = 0): TabWorkspaceService {
+	const saved = new Set<string>();
+
+	return {
+		saveBranchWorkspace: async (branch: string) => {
+			calls.push(`save ${branch}`);
+			await new Promise(resolve => setTimeout(resolve, saveDelay));
+			saved.add(branch);
+		},
+		getBranchWorkspace: (branch: string) => saved.has(branch) ? { name: TabWorkspaceService.getBranchWorkspaceName(branch), scope: 'test' } : undefined,
+		clearCurrentWorkspace: async () => {
+			calls.push('clear');
+		},
+		loadWorkspace: async (name: string) => {
+			calls.push(`load ${name}`);
+			return { opened: 1, skipped: 0 };
+		}
+	} as unknown as TabWorkspaceService;
+}
+
+/**
+ * Wait until the switches triggered so far have made the expected number of calls
+ */
+async function waitForCalls(calls: string[], count: number): Promise<void> {
+	for (let waited = 0; calls.length < count && waited < 1000; waited += 10) {
+		await new Promise(resolve => setTimeout(resolve, 10));
+	}
+}
+
+suite('BranchWorkspaceService', () => {
+	const configuration = () => vscode.workspace.getConfiguration('cleanx');
+
+	suiteSetup(async () => {
+		initializeLogger();
+		await configuration().update('branchWorkspaces', true, vscode.ConfigurationTarget.Global);
+	});
+	suiteTeardown(() => configuration().update('branchWorkspaces', undefined, vscode.ConfigurationTarget.Global));
+
+	test('saves the tabs of the old branch and loads the ones of the new branch', async () => {
+		const context = createFakeContext();
+		const calls: string[] = [];
+		const { api, checkout } = createFakeRepository('main');
+		const service = new BranchWorkspaceService(context, createFakeWorkspaceService(calls), new GitRepositoryService(async () => api));
+		await service.initialize(folder);
+
+		checkout('feature');
+		await waitForCalls(calls, 2);
+		checkout('main');
+		await waitForCalls(calls, 4);
+
+		assert.deepStrictEqual(calls, ['save main', 'clear', 'save feature', 'load Branch: main']);
+		disposeContext(context);
+	});
+
+	test('switches one after another on quick checkouts', async () => {
+		const context = createFakeContext();
+		const calls: string[] = [];
+		const { api, checkout } = createFakeRepository('main');
+		const service = new BranchWorkspaceService(context, createFakeWorkspaceService(calls, 50), new GitRepositoryService(async () => api));
+		await service.initialize(folder);
+
+		checkout('feature');
+		checkout('main');
+		await waitForCalls(calls, 4);
+
+		assert.deepStrictEqual(calls, ['save main', 'clear', 'save feature', 'load Branch: main']);
+		disposeContext(context);
+	});
+
+	test('keeps the workspace on a detached HEAD', async () => {
+		const context = createFakeContext();
+		const calls: string[] = [];
+		const { api, checkout } = createFakeRepository('main');
+		const service = new BranchWorkspaceService(context, createFakeWorkspaceService(calls), new GitRepositoryService(async () => api));
+		await service.initialize(folder);
+
+		checkout(undefined);
+		checkout('main');
+		await new Promise(resolve => setTimeout(resolve, 50));
+
+		assert.deepStrictEqual(calls, []);
+		disposeContext(context);
+	});
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { EditorViewStateService } from '../services/editorViewStateService';
+import { EditorViewState } from '../types';
+
+const VIEW_STATE: EditorViewState = {
+	selections: [{ anchor: { line: 40, character: 2 }, active: { line: 42, character: 8 } }],
+	visibleRanges: [{ start: { line: 30, character: 0 }, end: { line: 60, character: 0 } }]
+};
+
+function createDocument(path: string, lineCount: number): vscode.TextDocument {
+	return { uri: vscode.Uri.file(path), lineCount } as vscode.TextDocument;
+}
+
+suite('EditorViewStateService', () => {
+	test('restores saved selections and remembers them for the next save', () => {
+		const service = new EditorViewStateService();
+		const revealed: vscode.Range[] = [];
+		const editor = {
+			document: createDocument('/fake/a.ts', 100),
+			selections: [] as vscode.Selection[],
+			revealRange: (range: vscode.Range) => revealed.push(range)
+		} as unknown as vscode.TextEditor;
+
+		service.applyViewState(editor, VIEW_STATE);
+
+		assert.deepStrictEqual(editor.selections.map(selection => [selection.anchor.line, selection.active.character]), [[40, 8]]);
+		assert.deepStrictEqual(revealed.map(range => range.start.line), [30]);
+		assert.deepStrictEqual(service.getViewState(editor.document.uri), VIEW_STATE);
+		service.dispose();
+	});
+
+	test('clamps the initial selection to files that got shorter', () => {
+		const service = new EditorViewStateService();
+
+		const range = service.getSelectionRange(VIEW_STATE, createDocument('/fake/a.ts', 10));
+
+		assert.deepStrictEqual([range?.start.line, range?.start.character, range?.end.line, range?.end.character], [9, 2, 9, 8]);
+		assert.strictEqual(service.getSelectionRange({ selections: [], visibleRanges: [] }, createDocument('/fake/a.ts', 10)), undefined);
+		service.dispose();
+	});
+});
@@ -0,0 +1,43 @@
+import * as vscode from 'vscode';
+
+/**
+ * In-memory stand-in for `vscode.Memento`. Values are stored as JSON, like VS Code does.
+ */
+function createFakeMemento(): vscode.Memento & { setKeysForSync(keys: readonly string[]): void } {
+	const values = new Map<string, string>();
+
+	return {
+		keys: () => [...values.keys()],
+		get: <T>(key: string, defaultValue?: T) => {
+			const value = values.get(key);
+			return value !== undefined ? JSON.parse(value) as T : defaultValue;
+		},
+		update: async (key: string, value: unknown) => {
+			if (value === undefined) {
+				values.delete(key);
+			} else {
+				values.set(key, JSON.stringify(value));
+			}
+		},
+		setKeysForSync: () => {}
+	} as vscode.Memento & { setKeysForSync(keys: readonly string[]): void };
+}
+
+/**
+ * Extension context with in-memory state, enough for services that store state and register disposables
+ */
+export function createFakeContext(): vscode.ExtensionContext {
+	return {
+		subscriptions: [],
+		globalState: createFakeMemento(),
+		workspaceState: createFakeMemento()
+	} as unknown as vscode.ExtensionContext;
+}
+
+/**
+ * Dispose everything the services registered on a fake context
+ */
+export function disposeContext(context: vscode.ExtensionContext): void {
+	context.subscriptions.forEach(disposable => disposable.dispose());
+	context.subscriptions.length = 0;
+}
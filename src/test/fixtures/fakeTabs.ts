@@ -0,0 +1,51 @@
+import * as vscode from 'vscode';
+import { TabActivitySource } from '../../services/tabActivityService';
+
+/**
+ * Plain object standing in for an open tab
+ */
+export function createTab(input: unknown, label: string, state: Partial<Pick<vscode.Tab, 'isActive' | 'isPinned' | 'isPreview' | 'isDirty'>> = {}): vscode.Tab {
+	return {
+		input,
+		label,
+		group: { viewColumn: vscode.ViewColumn.One },
+		isActive: false,
+		isPinned: false,
+		isPreview: false,
+		isDirty: false,
+		...state
+	} as unknown as vscode.Tab;
+}
+
+/**
+ * Tab of a text file, labelled with its file name
+ */
+export function createFileTab(path: string, state?: Partial<Pick<vscode.Tab, 'isActive' | 'isPinned' | 'isPreview' | 'isDirty'>>): vscode.Tab {
+	const uri = vscode.Uri.file(path);
+	return createTab(new vscode.TabInputText(uri), path.slice(path.lastIndexOf('/') + 1), state);
+}
+
+/**
+ * Stand-in for `vscode.window.tabGroups` with one group whose active tab the test sets
+ */
+export function createFakeTabGroups(): TabActivitySource & { focus(tab: vscode.Tab): void } {
+	const tabsChanged = new vscode.EventEmitter<vscode.TabChangeEvent>();
+	const activeTabGroup = { activeTab: undefined as vscode.Tab | undefined };
+
+	return {
+		activeTabGroup: activeTabGroup as unknown as vscode.TabGroup,
+		onDidChangeTabs: tabsChanged.event,
+		onDidChangeTabGroups: new vscode.EventEmitter<vscode.TabGroupChangeEvent>().event,
+		focus: tab => {
+			activeTabGroup.activeTab = tab;
+			tabsChanged.fire({ opened: [], closed: [], changed: [tab] });
+		}
+	};
+}
+
+/**
+ * Wait until tab events no longer count as caused by an earlier CleanX operation
+ */
+export function waitForOwnChangeGrace(): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, 300));
+}
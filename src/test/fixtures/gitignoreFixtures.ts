@@ -0,0 +1,424 @@
+/**
+ * Ignore file setups with the paths Git reports as ignored for them.
+ * The `ignored` lists were recorded with `git check-ignore --no-index`; the test suite
+ * checks them against Git again whenever Git is available.
+ */
+export interface GitignoreFixture {
+	name: string;
+	excludesFile?: string;             // Content of the file configured as core.excludesFile
+	infoExclude?: string;              // Content of .git/info/exclude
+	gitignore: Record<string, string>; // Directory ('' for the root) -> content of its .gitignore
+	paths: string[];                   // Paths to check, directories end with a slash
+	ignored: string[];                 // The paths Git reports as ignored
+}
+
+export const gitignoreFixtures: GitignoreFixture[] = [
+	{
+		name: 'file name matches at any level',
+		gitignore: {
+			'': '*.log\n'
+		},
+		paths: ['debug.log', 'logs/debug.log', 'a/b/c/trace.log', 'debug.log.txt', 'log', 'logs/', 'readme.md'],
+		ignored: ['debug.log', 'logs/debug.log', 'a/b/c/trace.log']
+	},
+	{
+		name: 'asterisk does not cross slashes',
+		gitignore: {
+			'': 'src/*.js\n'
+		},
+		paths: ['src/a.js', 'src/lib/a.js', 'src/', 'a.js', 'lib/src/a.js'],
+		ignored: ['src/a.js']
+	},
+	{
+		name: 'question mark matches one character except slash',
+		gitignore: {
+			'': 'file?.txt\na?b\n'
+		},
+		paths: ['file1.txt', 'file12.txt', 'file.txt', 'dir/fileA.txt', 'axb', 'a/b', 'ab'],
+		ignored: ['file1.txt', 'dir/fileA.txt', 'axb']
+	},
+	{
+		name: 'character ranges',
+		gitignore: {
+			'': '*.[oa]\nlog[0-9].txt\n'
+		},
+		paths: ['main.o', 'lib.a', 'main.c', 'log1.txt', 'log9.txt', 'loga.txt', 'log10.txt'],
+		ignored: ['main.o', 'lib.a', 'log1.txt', 'log9.txt']
+	},
+	{
+		name: 'negated character classes',
+		gitignore: {
+			'': 'tmp[!0-9]\ncache[^a-c]\n'
+		},
+		paths: ['tmpx', 'tmp1', 'cached', 'cachea', 'cachez'],
+		ignored: ['tmpx', 'cached', 'cachez']
+	},
+	{
+		name: 'posix character classes',
+		gitignore: {
+			'': 'v[[:digit:]].js\n[[:upper:]]*.md\nx[[:alpha:]_]y\n'
+		},
+		paths: ['v1.js', 'vx.js', 'README.md', 'readme.md', 'Notes.md', 'x_y', 'xay', 'x1y'],
+		ignored: ['v1.js', 'README.md', 'Notes.md', 'x_y', 'xay']
+	},
+	{
+		name: 'closing bracket first in a class',
+		gitignore: {
+			'': 'a[]]b\nc[!]]d\n'
+		},
+		paths: ['a]b', 'axb', 'c]d', 'cxd'],
+		ignored: ['a]b', 'cxd']
+	},
+	{
+		name: 'unclosed bracket matches nothing',
+		gitignore: {
+			'': 'foo[bar\n'
+		},
+		paths: ['foo[bar', 'foob', 'foo'],
+		ignored: []
+	},
+	{
+		name: 'leading slash anchors to the root',
+		gitignore: {
+			'': '/build\n/todo.txt\n'
+		},
+		paths: ['build/', 'build/out.js', 'src/build/', 'src/build/out.js', 'todo.txt', 'docs/todo.txt'],
+		ignored: ['build/', 'build/out.js', 'todo.txt']
+	},
+	{
+		name: 'middle slash anchors to the root',
+		gitignore: {
+			'': 'doc/frotz\nsrc/gen/*.ts\n'
+		},
+		paths: ['doc/frotz/', 'doc/frotz/a.txt', 'a/doc/frotz/', 'a/doc/frotz/b.txt', 'src/gen/api.ts', 'lib/src/gen/api.ts', 'src/gen/deep/api.ts'],
+		ignored: ['doc/frotz/', 'doc/frotz/a.txt', 'src/gen/api.ts']
+	},
+	{
+		name: 'trailing slash matches directories only',
+		gitignore: {
+			'': 'frotz/\ncache/\n'
+		},
+		paths: ['frotz/', 'frotz/file', 'a/frotz/', 'a/frotz/file', 'cache', 'lib/cache', 'cache2/'],
+		ignored: ['frotz/', 'frotz/file', 'a/frotz/', 'a/frotz/file']
+	},
+	{
+		name: 'anchored directory pattern',
+		gitignore: {
+			'': 'doc/frotz/\n'
+		},
+		paths: ['doc/frotz/', 'doc/frotz/x', 'a/doc/frotz/', 'a/doc/frotz/x', 'doc/frotz2/'],
+		ignored: ['doc/frotz/', 'doc/frotz/x']
+	},
+	{
+		name: 'leading double asterisk',
+		gitignore: {
+			'': '**/foo\n**/bar/baz\n'
+		},
+		paths: ['foo', 'a/foo', 'a/b/foo/', 'a/b/foo/x', 'bar/baz', 'x/bar/baz', 'x/y/bar/baz', 'bar/qux/baz'],
+		ignored: ['foo', 'a/foo', 'a/b/foo/', 'a/b/foo/x', 'bar/baz', 'x/bar/baz', 'x/y/bar/baz']
+	},
+	{
+		name: 'trailing double asterisk',
+		gitignore: {
+			'': 'abc/**\n'
+		},
+		paths: ['abc/', 'abc/x', 'abc/d/e', 'x/abc/y', 'abcd/x'],
+		ignored: ['abc/x', 'abc/d/e']
+	},
+	{
+		name: 'double asterisk in the middle',
+		gitignore: {
+			'': 'a/**/b\n'
+		},
+		paths: ['a/b', 'a/x/b', 'a/x/y/b', 'c/a/b', 'a/bb', 'a/y/b/c'],
+		ignored: ['a/b', 'a/x/b', 'a/x/y/b', 'a/y/b/c']
+	},
+	{
+		name: 'other consecutive asterisks are regular asterisks',
+		gitignore: {
+			'': 'foo**bar\n**x\ny**\n'
+		},
+		paths: ['foobar', 'fooXbar', 'foo/bar', 'x', 'ax', 'a/x', 'y', 'yz', 'yy/z'],
+		ignored: ['foobar', 'fooXbar', 'x', 'ax', 'a/x', 'y', 'yz', 'yy/z']
+	},
+	{
+		name: 'double asterisk alone ignores everything',
+		gitignore: {
+			'': '**\n!keep.txt\n'
+		},
+		paths: ['a.txt', 'keep.txt', 'dir/', 'dir/keep.txt'],
+		ignored: ['a.txt', 'dir/', 'dir/keep.txt']
+	},
+	{
+		name: 'negation re-includes files',
+		gitignore: {
+			'': '*.log\n!important.log\n'
+		},
+		paths: ['debug.log', 'important.log', 'logs/important.log', 'logs/debug.log'],
+		ignored: ['debug.log', 'logs/debug.log']
+	},
+	{
+		name: 'last matching pattern wins',
+		gitignore: {
+			'': '*.txt\n!*.txt\nnotes.txt\n!a.md\n*.md\n'
+		},
+		paths: ['a.txt', 'notes.txt', 'sub/notes.txt', 'a.md', 'b.md'],
+		ignored: ['notes.txt', 'sub/notes.txt', 'a.md', 'b.md']
+	},
+	{
+		name: 'negation cannot re-include inside an excluded directory',
+		gitignore: {
+			'': 'build/\n!build/keep.txt\n'
+		},
+		paths: ['build/', 'build/keep.txt', 'build/out.js'],
+		ignored: ['build/', 'build/keep.txt', 'build/out.js']
+	},
+	{
+		name: 'negation works when the directory contents are excluded',
+		gitignore: {
+			'': 'build/*\n!build/keep.txt\n'
+		},
+		paths: ['build/', 'build/keep.txt', 'build/out.js', 'build/sub/', 'build/sub/x'],
+		ignored: ['build/out.js', 'build/sub/', 'build/sub/x']
+	},
+	{
+		name: 're-including a directory and then a file',
+		gitignore: {
+			'': '/*\n!/foo\n/foo/*\n!/foo/bar\n'
+		},
+		paths: ['a.txt', 'other/', 'other/x', 'foo/', 'foo/bar/', 'foo/baz', 'foo/bar/deep'],
+		ignored: ['a.txt', 'other/', 'other/x', 'foo/baz']
+	},
+	{
+		name: 'negated directory pattern',
+		gitignore: {
+			'': 'out*\n!out/\n'
+		},
+		paths: ['out/', 'out/a', 'output/', 'output/a', 'out.txt'],
+		ignored: ['output/', 'output/a', 'out.txt']
+	},
+	{
+		name: 'comments and blank lines',
+		gitignore: {
+			'': '# comment\n\n   \n#*.js\nfoo.js\n'
+		},
+		paths: ['foo.js', 'bar.js', '# comment', '#*.js'],
+		ignored: ['foo.js']
+	},
+	{
+		name: 'escaped hash and exclamation mark',
+		gitignore: {
+			'': '\\#notes\n\\!important\n'
+		},
+		paths: ['#notes', 'notes', '!important', 'important'],
+		ignored: ['#notes', '!important']
+	},
+	{
+		name: 'hash inside a pattern is literal',
+		gitignore: {
+			'': 'foo#bar\n'
+		},
+		paths: ['foo#bar', 'foo'],
+		ignored: ['foo#bar']
+	},
+	{
+		name: 'trailing spaces are stripped',
+		gitignore: {
+			'': 'trailing   \n'
+		},
+		paths: ['trailing', 'trailing   '],
+		ignored: ['trailing']
+	},
+	{
+		name: 'escaped trailing space is kept',
+		gitignore: {
+			'': 'space\\ \n'
+		},
+		paths: ['space ', 'space'],
+		ignored: ['space ']
+	},
+	{
+		name: 'spaces inside patterns',
+		gitignore: {
+			'': 'my file.txt\n leading.txt\n'
+		},
+		paths: ['my file.txt', 'myfile.txt', ' leading.txt', 'leading.txt'],
+		ignored: ['my file.txt', ' leading.txt']
+	},
+	{
+		name: 'backslash escapes special characters',
+		gitignore: {
+			'': 'star\\*\nq\\?\n\\[x\\]\n'
+		},
+		paths: ['star*', 'stars', 'q?', 'qa', '[x]', 'x'],
+		ignored: ['star*', 'q?', '[x]']
+	},
+	{
+		name: 'trailing backslash matches nothing',
+		gitignore: {
+			'': 'broken\\\n'
+		},
+		paths: ['broken', 'broken\\'],
+		ignored: []
+	},
+	{
+		name: 'asterisk matches dotfiles',
+		gitignore: {
+			'': '*\n!*/\n!*.md\n'
+		},
+		paths: ['.env', 'a.md', '.hidden.md', 'dir/', 'dir/.env', 'dir/b.md'],
+		ignored: ['.env', 'dir/.env']
+	},
+	{
+		name: 'directory pattern vs file with the same name',
+		gitignore: {
+			'': 'logs/\ntmp\n'
+		},
+		paths: ['logs', 'sub/logs', 'logs2/', 'tmp', 'sub/tmp/', 'sub/tmp/x'],
+		ignored: ['tmp', 'sub/tmp/', 'sub/tmp/x']
+	},
+	{
+		name: 'wildcard directory segment',
+		gitignore: {
+			'': 'foo/*\n'
+		},
+		paths: ['foo/file', 'foo/bar/', 'foo/bar/baz', 'foo/', 'a/foo/bar'],
+		ignored: ['foo/file', 'foo/bar/', 'foo/bar/baz']
+	},
+	{
+		name: 'case sensitive matching',
+		gitignore: {
+			'': '*.LOG\nReadme.md\n'
+		},
+		paths: ['x.LOG', 'x.log', 'Readme.md', 'README.md'],
+		ignored: ['x.LOG', 'Readme.md']
+	},
+	{
+		name: 'nested gitignore patterns are relative to their directory',
+		gitignore: {
+			'': '',
+			'src': '/gen\n*.tmp\ndocs/api\n'
+		},
+		paths: ['gen/', 'gen/x', 'src/gen/', 'src/gen/x', 'src/lib/gen/', 'a.tmp', 'src/a.tmp', 'src/lib/a.tmp', 'src/docs/api', 'docs/api', 'src/x/docs/api'],
+		ignored: ['src/gen/', 'src/gen/x', 'src/a.tmp', 'src/lib/a.tmp', 'src/docs/api']
+	},
+	{
+		name: 'nested gitignore overrides the root',
+		gitignore: {
+			'': '*.log\n!keep.txt\n',
+			'pkg': '!*.log\nkeep.txt\n'
+		},
+		paths: ['a.log', 'pkg/a.log', 'pkg/sub/a.log', 'keep.txt', 'pkg/keep.txt', 'other/keep.txt'],
+		ignored: ['a.log', 'pkg/keep.txt']
+	},
+	{
+		name: 'deeper gitignore takes precedence over shallower',
+		gitignore: {
+			'': '*.js\n',
+			'a': '!*.js\n',
+			'a/b': '*.js\n'
+		},
+		paths: ['x.js', 'a/x.js', 'a/c/x.js', 'a/b/x.js', 'a/b/c/x.js'],
+		ignored: ['x.js', 'a/b/x.js', 'a/b/c/x.js']
+	},
+	{
+		name: 'nested gitignore cannot re-include in an excluded directory',
+		gitignore: {
+			'': 'vendor/\n',
+			'vendor': '!*\n'
+		},
+		paths: ['vendor/', 'vendor/lib.js'],
+		ignored: ['vendor/', 'vendor/lib.js']
+	},
+	{
+		name: 'nested trailing slash and double asterisk',
+		gitignore: {
+			'': '',
+			'app': 'cache/\n**/tmp/**\n'
+		},
+		paths: ['cache/', 'app/cache/', 'app/x/cache/', 'app/tmp/a', 'app/x/tmp/a', 'tmp/a'],
+		ignored: ['app/cache/', 'app/x/cache/', 'app/tmp/a', 'app/x/tmp/a']
+	},
+	{
+		name: 'info exclude is applied',
+		infoExclude: '*.swp\nlocal/\n',
+		gitignore: {},
+		paths: ['a.swp', 'dir/b.swp', 'local/', 'local/x', 'a.txt'],
+		ignored: ['a.swp', 'dir/b.swp', 'local/', 'local/x']
+	},
+	{
+		name: 'gitignore takes precedence over info exclude',
+		infoExclude: '*.bak\n!keep.tmp\n',
+		gitignore: {
+			'': '!important.bak\n*.tmp\n'
+		},
+		paths: ['a.bak', 'important.bak', 'keep.tmp', 'other.tmp'],
+		ignored: ['a.bak', 'keep.tmp', 'other.tmp']
+	},
+	{
+		name: 'global excludes file is applied',
+		excludesFile: '.DS_Store\n*.orig\n',
+		gitignore: {},
+		paths: ['.DS_Store', 'a/.DS_Store', 'x.orig', 'x.txt'],
+		ignored: ['.DS_Store', 'a/.DS_Store', 'x.orig']
+	},
+	{
+		name: 'precedence of global, info exclude and gitignore',
+		excludesFile: '*.tmp\n!a.tmp\n*.cfg\n',
+		infoExclude: '!b.tmp\na.tmp\n',
+		gitignore: {
+			'': '!c.tmp\n',
+			'sub': 'c.tmp\n!x.cfg\n'
+		},
+		paths: ['a.tmp', 'b.tmp', 'c.tmp', 'd.tmp', 'sub/c.tmp', 'sub/d.tmp', 'x.cfg', 'sub/x.cfg'],
+		ignored: ['a.tmp', 'd.tmp', 'sub/c.tmp', 'sub/d.tmp', 'x.cfg']
+	},
+	{
+		name: 'dot and plus are literal',
+		gitignore: {
+			'': 'a.b\nc+d\n(e)\n$f^\n'
+		},
+		paths: ['a.b', 'axb', 'c+d', 'ccd', '(e)', 'e', '$f^'],
+		ignored: ['a.b', 'c+d', '(e)', '$f^']
+	},
+	{
+		name: 'pattern matching a directory name anywhere',
+		gitignore: {
+			'': 'node_modules\n'
+		},
+		paths: ['node_modules/', 'node_modules/pkg/index.js', 'packages/a/node_modules/', 'packages/a/node_modules/x.js', 'node_modules_backup/'],
+		ignored: ['node_modules/', 'node_modules/pkg/index.js', 'packages/a/node_modules/', 'packages/a/node_modules/x.js']
+	},
+	{
+		name: 'negation of a nested path with unanchored directory',
+		gitignore: {
+			'': 'build\n!src/build\n'
+		},
+		paths: ['build/', 'src/build/', 'src/build/x', 'lib/build/'],
+		ignored: ['build/', 'lib/build/']
+	},
+	{
+		name: 'leading slash with double asterisk',
+		gitignore: {
+			'': '/**/*.gen.ts\n'
+		},
+		paths: ['a.gen.ts', 'src/a.gen.ts', 'src/deep/a.gen.ts', 'a.ts'],
+		ignored: ['a.gen.ts', 'src/a.gen.ts', 'src/deep/a.gen.ts']
+	},
+	{
+		name: 'negation with directory only file',
+		gitignore: {
+			'': '*.d\n!*.d/\n'
+		},
+		paths: ['x.d', 'y.d/', 'y.d/z'],
+		ignored: ['x.d']
+	},
+	{
+		name: 'empty negation is ignored',
+		gitignore: {
+			'': '!\n*.o\n'
+		},
+		paths: ['a.o', '!'],
+		ignored: ['a.o']
+	}
+];
@@ -0,0 +1,14 @@
+import { Logger } from '../../utils/logger';
+
+let isInitialized = false;
+
+/**
+ * Give the services under test an output channel to log to. The extension host only
+ * initializes the copy of `Logger` bundled into the extension, not the one tests import.
+ */
+export function initializeLogger(): void {
+	if (!isInitialized) {
+		Logger.initialize('CleanX Tests');
+		isInitialized = true;
+	}
+}
@@ -0,0 +1,189 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { GitAPI, GitChange, GitRepository, GitStatus } from '../types/git';
+import { GitRepositoryService } from '../services/gitRepositoryService';
+import { GitDiffEditorService } from '../services/gitDiffEditorService';
+
+const root = vscode.Uri.file('/fake/repo');
+const file = vscode.Uri.joinPath(root, 'src', 'index.ts');
+
+/**
+ * Minimal stand-in for the Git extension API with one repository, at `root` unless given another
+ */
+function createFakeApi(options: { root?: vscode.Uri, changes?: Partial<Record<'merge' | 'index' | 'workingTree' | 'untracked', GitChange[]>>, ignored?: string[], checkIgnore?: boolean } = {}): GitAPI {
+	const rootUri = options.root ?? root;
+	const repository: GitRepository = {
+		rootUri,
+		state: {
+			HEAD: { name: 'main' },
+			mergeChanges: options.changes?.merge ?? [],
+			indexChanges: options.changes?.index ?? [],
+			workingTreeChanges: options.changes?.workingTree ?? [],
+			untrackedChanges: options.changes?.untracked ?? [],
+			onDidChange: new vscode.EventEmitter<void>().event
+		},
+		checkIgnore: options.checkIgnore === false
+			? undefined
+			: async paths => new Set(paths.filter(filePath => options.ignored?.includes(filePath)))
+	};
+
+	return {
+		repositories: [repository],
+		onDidOpenRepository: new vscode.EventEmitter<GitRepository>().event,
+		getRepository: uri => uri.fsPath.startsWith(rootUri.fsPath) ? repository : null
+	};
+}
+
+function change(uri: vscode.Uri, status: GitStatus): GitChange {
+	return { uri, originalUri: uri, renameUri: undefined, status };
+}
+
+/**
+ * A `git:` URI the way the Git extension builds it
+ */
+function toGitUri(uri: vscode.Uri, ref: string): vscode.Uri {
+	return uri.with({ scheme: 'git', query: JSON.stringify({ path: uri.fsPath, ref }) });
+}
+
+function createTab(input: unknown, label: string): vscode.Tab {
+	return { input, label } as unknown as vscode.Tab;
+}
+
+suite('GitRepositoryService', () => {
+	test('ranks change kinds: conflict, modified, staged, untracked', async () => {
+		const [conflicted, modified, staged, untracked] = ['a', 'b', 'c', 'd'].map(name => vscode.Uri.joinPath(root, name));
+		const service = new GitRepositoryService(async () => createFakeApi({
+			changes: {
+				merge: [change(conflicted, GitStatus.BOTH_MODIFIED)],
+				index: [change(conflicted, GitStatus.INDEX_MODIFIED), change(modified, GitStatus.INDEX_MODIFIED), change(staged, GitStatus.INDEX_ADDED)],
+				workingTree: [change(modified, GitStatus.MODIFIED)],
+				untracked: [change(untracked, GitStatus.UNTRACKED)]
+			}
+		}));
+
+		const changeKinds = await service.getChangeKinds();
+
+		assert.strictEqual(changeKinds.get(conflicted.toString()), 'conflict');
+		assert.strictEqual(changeKinds.get(modified.toString()), 'modified');
+		assert.strictEqual(changeKinds.get(staged.toString()), 'staged');
+		assert.strictEqual(changeKinds.get(untracked.toString()), 'untracked');
+	});
+
+	test('maps renamed files to their new path', async () => {
+		const renamed = vscode.Uri.joinPath(root, 'src', 'main.ts');
+		const service = new GitRepositoryService(async () => createFakeApi({
+			changes: { index: [{ uri: renamed, originalUri: file, renameUri: renamed, status: GitStatus.INDEX_RENAMED }, change(root, GitStatus.INDEX_MODIFIED)] }
+		}));
+
+		const renames = await service.getRenames();
+
+		assert.deepStrictEqual([...renames.keys()], [file.toString()]);
+		assert.strictEqual(renames.get(file.toString())?.toString(), renamed.toString());
+	});
+
+	test('asks the repository whether a file is ignored', async () => {
+		const service = new GitRepositoryService(async () => createFakeApi({ ignored: [file.fsPath] }));
+
+		assert.strictEqual(await service.isIgnored(file), true);
+		assert.strictEqual(await service.isIgnored(vscode.Uri.joinPath(root, 'README.md')), false);
+	});
+
+	test('cannot tell without a repository or checkIgnore', async () => {
+		assert.strictEqual(await new GitRepositoryService(async () => undefined).isIgnored(file), undefined);
+		assert.strictEqual(await new GitRepositoryService(async () => createFakeApi()).isIgnored(vscode.Uri.file('/elsewhere/a.ts')), undefined);
+		assert.strictEqual(await new GitRepositoryService(async () => createFakeApi({ checkIgnore: false })).isIgnored(file), undefined);
+	});
+
+	test('resolves git URIs of open repositories', () => {
+		const api = createFakeApi();
+		const service = new GitRepositoryService(async () => api);
+
+		const target = service.resolveGitUri(api, toGitUri(file, 'HEAD'));
+
+		assert.strictEqual(target?.uri.fsPath, file.fsPath);
+		assert.strictEqual(target?.ref, 'HEAD');
+		assert.strictEqual(service.resolveGitUri(api, toGitUri(vscode.Uri.file('/elsewhere/a.ts'), 'HEAD')), undefined);
+		assert.strictEqual(service.resolveGitUri(api, file), undefined);
+	});
+});
+
+suite('GitDiffEditorService', () => {
+	const workingTreeDiff = createTab(new vscode.TabInputTextDiff(toGitUri(file, '~'), file), 'index.ts (Working Tree)');
+	const unrelatedDiff = createTab(new vscode.TabInputTextDiff(vscode.Uri.file('/tmp/old.txt'), vscode.Uri.file('/tmp/new.txt')), 'old.txt vs new.txt');
+
+	test('recognizes diffs of repository files through the Git extension', async () => {
+		const service = new GitDiffEditorService(new GitRepositoryService(async () => createFakeApi()));
+
+		const verdict = await service.classify(workingTreeDiff);
+
+		assert.strictEqual(verdict?.rule, 'gitRepository');
+		assert.strictEqual(await service.classify(unrelatedDiff), undefined);
+	});
+
+	test('ignores git URIs outside the open repositories', async () => {
+		const service = new GitDiffEditorService(new GitRepositoryService(async () => createFakeApi()));
+		const outside = vscode.Uri.file('/elsewhere/a.ts');
+
+		assert.strictEqual(await service.classify(createTab(new vscode.TabInputTextDiff(toGitUri(outside, 'HEAD'), outside), 'a.ts')), undefined);
+	});
+
+	test('falls back to heuristics without the Git extension', async () => {
+		const service = new GitDiffEditorService(new GitRepositoryService(async () => undefined));
+
+		assert.strictEqual((await service.classify(workingTreeDiff))?.rule, 'gitUriScheme');
+		assert.strictEqual((await service.classify(unrelatedDiff))?.rule, 'diffLabel');
+	});
+
+	test('uses the repository to check ignored files', async () => {
+		const service = new GitDiffEditorService(new GitRepositoryService(async () => createFakeApi({ ignored: [file.fsPath] })));
+
+		assert.strictEqual(await service.isGitignored(file), true);
+		assert.strictEqual(await service.isGitignored(vscode.Uri.joinPath(root, 'README.md')), false);
+		assert.strictEqual(await service.isGitignored(toGitUri(file, 'HEAD')), false);
+	});
+
+	test('finds tracked files without changes', async () => {
+		const [changed, untracked, ignored, unchanged] = ['changed.ts', 'new.ts', 'debug.log', 'unchanged.ts'].map(name => vscode.Uri.joinPath(root, name));
+		const service = new GitDiffEditorService(new GitRepositoryService(async () => createFakeApi({
+			changes: { workingTree: [change(changed, GitStatus.MODIFIED), change(untracked, GitStatus.UNTRACKED)] },
+			ignored: [ignored.fsPath]
+		})));
+
+		const unmodified = await service.findUnmodifiedFiles([changed, untracked, ignored, unchanged, vscode.Uri.file('/elsewhere/a.ts')]);
+
+		assert.deepStrictEqual([...unmodified ?? []], [unchanged.toString()]);
+		assert.strictEqual(await new GitDiffEditorService(new GitRepositoryService(async () => undefined)).findUnmodifiedFiles([unchanged]), undefined);
+	});
+
+	test('reads .gitignore files when the repository cannot check ignored files', async () => {
+		const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cleanx-'));
+		await fs.mkdir(path.join(directory, '.git'));
+		await fs.writeFile(path.join(directory, '.gitignore'), '*.log\n');
+		const repositoryRoot = vscode.Uri.file(directory);
+		const [ignored, unchanged] = ['debug.log', 'unchanged.ts'].map(name => vscode.Uri.joinPath(repositoryRoot, name));
+		const service = new GitDiffEditorService(new GitRepositoryService(async () => createFakeApi({ root: repositoryRoot, checkIgnore: false })));
+
+		try {
+			const unmodified = await service.findUnmodifiedFiles([ignored, unchanged]);
+
+			assert.deepStrictEqual([...unmodified ?? []], [unchanged.toString()]);
+		} finally {
+			await fs.rm(directory, { recursive: true, force: true });
+		}
+	});
+
+	test('lists changed files that still exist', async () => {
+		const [modified, staged, deleted] = ['b.ts', 'a.ts', 'c.ts'].map(name => vscode.Uri.joinPath(root, name));
+		const service = new GitDiffEditorService(new GitRepositoryService(async () => createFakeApi({
+			changes: {
+				index: [change(staged, GitStatus.INDEX_ADDED), change(modified, GitStatus.INDEX_MODIFIED)],
+				workingTree: [change(modified, GitStatus.MODIFIED), change(deleted, GitStatus.DELETED)]
+			}
+		})));
+
+		assert.deepStrictEqual((await service.getChangedFiles())?.map(uri => uri.toString()), [staged.toString(), modified.toString()]);
+	});
+});
@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GitignoreMatcher, GitignoreRule } from '../utils/gitignoreMatcher';
+import { GitignoreFixture, gitignoreFixtures } from './fixtures/gitignoreFixtures';
+
+/**
+ * Build a matcher with the rules of a fixture in Git's precedence order
+ */
+function createMatcher(fixture: GitignoreFixture): GitignoreMatcher {
+	const rules: GitignoreRule[] = [
+		...GitignoreMatcher.parse(fixture.excludesFile ?? ''),
+		...GitignoreMatcher.parse(fixture.infoExclude ?? '')
+	];
+
+	// Deeper .gitignore files take precedence over the ones above them
+	const directories = Object.keys(fixture.gitignore)
+		.sort((a, b) => (a === '' ? 0 : a.split('/').length) - (b === '' ? 0 : b.split('/').length));
+	for (const directory of directories) {
+		rules.push(...GitignoreMatcher.parse(fixture.gitignore[directory], directory));
+	}
+
+	return new GitignoreMatcher(rules);
+}
+
+/**
+ * Ask Git which paths of a fixture are ignored, or return undefined if Git is not available
+ */
+function runGitCheckIgnore(fixture: GitignoreFixture): string[] | undefined {
+	const root = fs.mkdtempSync(path.join(os.tmpdir(), 'cleanx-gitignore-'));
+	try {
+		if (cp.spawnSync('git', ['init', '-q', root]).status !== 0) {
+			return undefined;
+		}
+
+		const excludesFile = path.join(root, '.git', 'excludes');
+		fs.writeFileSync(excludesFile, fixture.excludesFile ?? '');
+		fs.writeFileSync(path.join(root, '.git', 'info', 'exclude'), fixture.infoExclude ?? '');
+		for (const [directory, content] of Object.entries(fixture.gitignore)) {
+			fs.mkdirSync(path.join(root, directory), { recursive: true });
+			fs.writeFileSync(path.join(root, directory, '.gitignore'), content);
+		}
+
+		// Git looks at the file system to tell directories from files
+		for (const filePath of fixture.paths) {
+			const fullPath = path.join(root, filePath);
+			if (filePath.endsWith('/')) {
+				fs.mkdirSync(fullPath, { recursive: true });
+			} else {
+				fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+				fs.writeFileSync(fullPath, '');
+			}
+		}
+
+		const result = cp.spawnSync('git', [
+			'-c', `core.excludesFile=${excludesFile}`,
+			'-c', 'core.ignoreCase=false',
+			'check-ignore', '--no-index', '--stdin', '-z'
+		], { cwd: root, input: fixture.paths.map(filePath => filePath.replace(/\/$/, '')).join('\0') + '\0', encoding: 'utf8' });
+
+		// Exit code 1 means that no path is ignored
+		if (result.status !== 0 && result.status !== 1) {
+			return undefined;
+		}
+
+		const ignored = new Set(result.stdout.split('\0'));
+		return fixture.paths.filter(filePath => ignored.has(filePath.replace(/\/$/, '')));
+	} finally {
+		fs.rmSync(root, { recursive: true, force: true });
+	}
+}
+
+suite('GitignoreMatcher', () => {
+	const gitAvailable = cp.spawnSync('git', ['--version']).status === 0;
+
+	for (const fixture of gitignoreFixtures) {
+		test(fixture.name, () => {
+			const matcher = createMatcher(fixture);
+			const ignored = fixture.paths.filter(filePath => matcher.isIgnored(filePath.replace(/\/$/, ''), filePath.endsWith('/')));
+
+			assert.deepStrictEqual(ignored, fixture.ignored);
+		});
+	}
+
+	suite('recorded results match git check-ignore', () => {
+		for (const fixture of gitignoreFixtures) {
+			test(fixture.name, function () {
+				if (!gitAvailable || process.platform === 'win32') {
+					this.skip();
+				}
+
+				const ignored = runGitCheckIgnore(fixture);
+				if (!ignored) {
+					this.skip();
+				}
+
+				assert.deepStrictEqual(ignored, fixture.ignored);
+			});
+		}
+	});
+
+	test('parses negation, directory and anchoring flags', () => {
+		const [negated, directory, anchored, unanchored] = GitignoreMatcher.parse('!keep.log\nbuild/\n/dist\n*.tmp', 'src');
+
+		assert.strictEqual(negated.negate, true);
+		assert.strictEqual(directory.directoryOnly, true);
+		assert.strictEqual(directory.anchored, false);
+		assert.strictEqual(anchored.anchored, true);
+		assert.strictEqual(unanchored.anchored, false);
+		assert.strictEqual(unanchored.base, 'src');
+	});
+
+	test('reports the deciding rule', () => {
+		const matcher = new GitignoreMatcher(GitignoreMatcher.parse('*.log\n!keep.log'));
+
+		assert.strictEqual(matcher.findMatchingRule('keep.log')?.pattern, '!keep.log');
+		assert.strictEqual(matcher.findMatchingRule('debug.log')?.pattern, '*.log');
+		assert.strictEqual(matcher.findMatchingRule('readme.md'), undefined);
+	});
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { GlobMatcher } from '../utils/globMatcher';
+
+suite('GlobMatcher', () => {
+	test('matches file names when the pattern has no slash', () => {
+		assert.strictEqual(GlobMatcher.matches('*.test.ts', 'src/app.test.ts'), true);
+		assert.strictEqual(GlobMatcher.matches('package.json', 'packages/core/package.json'), true);
+		assert.strictEqual(GlobMatcher.matches('*.test.ts', 'src/app.ts'), false);
+	});
+
+	test('matches workspace-relative paths when the pattern has a slash', () => {
+		assert.strictEqual(GlobMatcher.matches('src/*.ts', 'src/app.ts'), true);
+		assert.strictEqual(GlobMatcher.matches('src/*.ts', 'src/utils/app.ts'), false);
+		assert.strictEqual(GlobMatcher.matches('/src/*.ts', 'src/app.ts'), true);
+		assert.strictEqual(GlobMatcher.matches('src/*.ts', 'lib/src/app.ts'), false);
+	});
+
+	test('matches any number of directories with **', () => {
+		assert.strictEqual(GlobMatcher.matches('src/**/*.ts', 'src/app.ts'), true);
+		assert.strictEqual(GlobMatcher.matches('src/**/*.ts', 'src/a/b/app.ts'), true);
+		assert.strictEqual(GlobMatcher.matches('**/test/*', 'test/app.ts'), true);
+		assert.strictEqual(GlobMatcher.matches('src/**', 'src/a/b/app.ts'), true);
+	});
+
+	test('matches single characters with ? but never a slash', () => {
+		assert.strictEqual(GlobMatcher.matches('?.ts', 'a.ts'), true);
+		assert.strictEqual(GlobMatcher.matches('?.ts', 'ab.ts'), false);
+		assert.strictEqual(GlobMatcher.matches('src?app.ts', 'src/app.ts'), false);
+	});
+
+	test('matches alternatives', () => {
+		assert.strictEqual(GlobMatcher.matches('*.{ts,tsx}', 'app.tsx'), true);
+		assert.strictEqual(GlobMatcher.matches('*.{ts,tsx}', 'app.js'), false);
+		assert.strictEqual(GlobMatcher.matches('{src,lib}/**/*.{ts,js}', 'lib/a/index.js'), true);
+		assert.strictEqual(GlobMatcher.matches('a,b.ts', 'a,b.ts'), true);
+	});
+
+	test('matches character classes and ranges', () => {
+		assert.strictEqual(GlobMatcher.matches('file[0-9].ts', 'file1.ts'), true);
+		assert.strictEqual(GlobMatcher.matches('file[0-9].ts', 'filex.ts'), false);
+		assert.strictEqual(GlobMatcher.matches('file[!0-9].ts', 'filex.ts'), true);
+		assert.strictEqual(GlobMatcher.matches('file[^0-9].ts', 'file1.ts'), false);
+		assert.strictEqual(GlobMatcher.matches('src[!a]app.ts', 'src/app.ts'), false);
+	});
+
+	test('treats special characters inside character classes literally', () => {
+		assert.strictEqual(GlobMatcher.matches('a[]]b', 'a]b'), true);
+		assert.strictEqual(GlobMatcher.matches('a[!]]b', 'a]b'), false);
+		assert.strictEqual(GlobMatcher.matches('a[x^]b', 'a^b'), true);
+		assert.strictEqual(GlobMatcher.matches('a[x^]b', 'ayb'), false);
+		assert.strictEqual(GlobMatcher.matches('a[\\\\]b', 'a\\b'), true);
+		assert.strictEqual(GlobMatcher.matches('a[\\]]b', 'a]b'), true);
+		assert.strictEqual(GlobMatcher.matches('a[-x]b', 'a-b'), true);
+		assert.strictEqual(GlobMatcher.matches('a[x-]b', 'a-b'), true);
+	});
+
+	test('treats unclosed brackets and braces leniently', () => {
+		assert.strictEqual(GlobMatcher.matches('a[b', 'a[b'), true);
+		assert.strictEqual(GlobMatcher.matches('*.{ts,js', 'app.js'), true);
+		assert.strictEqual(GlobMatcher.matches('a}.ts', 'a}.ts'), true);
+	});
+
+	test('escapes regular expression characters', () => {
+		assert.strictEqual(GlobMatcher.matches('a.ts', 'abts'), false);
+		assert.strictEqual(GlobMatcher.matches('(a)+.ts', '(a)+.ts'), true);
+		assert.strictEqual(GlobMatcher.matches('$a|b^.ts', '$a|b^.ts'), true);
+	});
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { GitRepositoryService } from '../services/gitRepositoryService';
+import { MissingFileTabService } from '../services/missingFileTabService';
+import { TabCleanupService } from '../services/tabCleanupService';
+import { TabWorkspaceService } from '../services/tabWorkspaceService';
+import { createFakeContext, disposeContext } from './fixtures/fakeContext';
+import { createFileTab, createTab } from './fixtures/fakeTabs';
+
+suite('MissingFileTabService', () => {
+	test('finds tabs of deleted files and the new paths of files Git saw renamed', async () => {
+		const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cleanx-'));
+		const file = (name: string) => path.join(directory, name);
+		await fs.writeFile(file('kept.ts'), '');
+		await fs.writeFile(file('renamed.ts'), '');
+
+		const tabs = [
+			createFileTab(file('kept.ts')),
+			createFileTab(file('deleted.ts')),
+			createFileTab(file('old.ts')),
+			createFileTab(file('moved-away.ts')),
+			createTab(new vscode.TabInputTextDiff(vscode.Uri.file(file('gone.ts')), vscode.Uri.file(file('gone.ts'))), 'gone.ts'),
+			createTab(new vscode.TabInputText(vscode.Uri.parse('untitled:Untitled-1')), 'Untitled-1')
+		];
+		const renames = new Map([
+			[vscode.Uri.file(file('old.ts')).toString(), vscode.Uri.file(file('renamed.ts'))],
+			// Renamed in Git, but the new file was deleted since
+			[vscode.Uri.file(file('moved-away.ts')).toString(), vscode.Uri.file(file('elsewhere.ts'))]
+		]);
+		const context = createFakeContext();
+		const service = new MissingFileTabService(
+			context,
+			{ getAllTabs: () => tabs } as unknown as TabWorkspaceService,
+			{} as TabCleanupService,
+			{ getRenames: async () => renames } as unknown as GitRepositoryService
+		);
+
+		try {
+			const missing = await service.findMissingFileTabs();
+
+			assert.deepStrictEqual(
+				missing.map(({ tab, renamedTo }) => [tab.label, renamedTo && path.basename(renamedTo.fsPath)]),
+				[['deleted.ts', undefined], ['old.ts', 'renamed.ts'], ['moved-away.ts', undefined]]
+			);
+		} finally {
+			disposeContext(context);
+			await fs.rm(directory, { recursive: true, force: true });
+		}
+	});
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SharedWorkspaceService } from '../services/sharedWorkspaceService';
+import { TabInputService } from '../services/tabInputService';
+import { initializeLogger } from './fixtures/logger';
+
+suite('SharedWorkspaceService', () => {
+	suiteSetup(() => initializeLogger());
+
+	test('drops invalid groups, tabs, layouts and view states of hand-edited files', async () => {
+		const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cleanx-'));
+		const file = path.join(directory, 'workspaces.json');
+		const tab = (input: unknown) => ({ input, label: 'a.ts', isPinned: false, isPreview: false, isActive: false });
+		await fs.writeFile(file, JSON.stringify({
+			version: 1,
+			workspaces: [
+				{
+					name: 'Review',
+					groups: [
+						{ viewColumn: 1, isActive: true, tabs: [
+							tab({ kind: 'text', uri: { uri: 'file:///fake/a.ts' } }),
+							null,
+							tab({ kind: 'text' }),
+							tab({ kind: 'textDiff', original: { folder: 'repo', path: 'a.ts' }, modified: 'file:///fake/a.ts' }),
+							tab({ kind: 'unknown' }),
+							tab({ kind: 'terminal' })
+						] },
+						{ viewColumn: 2, isActive: false, tabs: 'a.ts' },
+						{ isActive: false, tabs: [] },
+						null
+					]
+				},
+				{
+					name: 'Broken state',
+					layout: { orientation: 0, groups: [{ size: 'large' }] },
+					groups: [
+						{ viewColumn: 1, isActive: true, tabs: [
+							{ ...tab({ kind: 'text', uri: { uri: 'file:///fake/a.ts' } }), viewState: { selections: 'none', visibleRanges: [] } },
+							{ ...tab({ kind: 'text', uri: { uri: 'file:///fake/b.ts' } }), viewState: {
+								selections: [{ anchor: { line: 1, character: 0 }, active: { line: 1, character: 4 } }],
+								visibleRanges: []
+							} }
+						] }
+					]
+				},
+				{ name: 'No groups' }
+			]
+		}));
+		const service = new SharedWorkspaceService(new TabInputService());
+
+		try {
+			const workspaces = await service.readFile(vscode.Uri.file(file));
+
+			assert.deepStrictEqual(workspaces.map(workspace => workspace.name), ['Review', 'Broken state']);
+			assert.deepStrictEqual(workspaces[0].groups.map(group => group.tabs.map(savedTab => savedTab.input.kind)), [['text', 'terminal']]);
+			assert.strictEqual(workspaces[1].layout, undefined);
+			assert.deepStrictEqual(workspaces[1].groups[0].tabs.map(savedTab => savedTab.viewState?.selections.length), [undefined, 1]);
+		} finally {
+			service.dispose();
+			await fs.rm(directory, { recursive: true, force: true });
+		}
+	});
+
+	test('points paths of folders that are not open at the folder containing the file', async () => {
+		const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'cleanx-'));
+		const file = path.join(directory, 'workspaces.json');
+		await fs.writeFile(file, JSON.stringify({
+			version: 1,
+			workspaces: [{ name: 'Review', groups: [{ viewColumn: 1, isActive: true, tabs: [
+				{ input: { kind: 'textDiff', original: { folder: 'app', path: 'a.ts' }, modified: { uri: 'file:///fake/a.ts' } }, label: 'a.ts', isPinned: false, isPreview: false, isActive: true }
+			] }] }]
+		}));
+		const folder: vscode.WorkspaceFolder = { uri: vscode.Uri.file(directory), name: 'app-clone', index: 0 };
+		const service = new SharedWorkspaceService(new TabInputService());
+
+		try {
+			const [workspace] = await service.readFile(vscode.Uri.file(file), folder);
+
+			assert.deepStrictEqual(workspace.groups[0].tabs[0].input, {
+				kind: 'textDiff',
+				original: { folder: 'app-clone', path: 'a.ts' },
+				modified: { uri: 'file:///fake/a.ts' }
+			});
+		} finally {
+			service.dispose();
+			await fs.rm(directory, { recursive: true, force: true });
+		}
+	});
+});
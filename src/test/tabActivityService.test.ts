@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import { TabActivityService } from '../services/tabActivityService';
+import { TabInputService } from '../services/tabInputService';
+import { TabEvents } from '../utils/tabEvents';
+import { createFakeTabGroups, createFileTab, waitForOwnChangeGrace } from './fixtures/fakeTabs';
+
+suite('TabActivityService', () => {
+	test('records tabs the user focuses', async () => {
+		await waitForOwnChangeGrace();
+		const tabGroups = createFakeTabGroups();
+		const service = new TabActivityService(new TabInputService(), tabGroups);
+		const tab = createFileTab('/fake/a.ts');
+
+		tabGroups.focus(tab);
+
+		assert.ok((service.getLastFocused(tab) ?? 0) >= service.startedAt);
+		service.dispose();
+	});
+
+	test('ignores tabs focused by CleanX operations', async () => {
+		const tabGroups = createFakeTabGroups();
+		const service = new TabActivityService(new TabInputService(), tabGroups);
+		const [moved, other] = [createFileTab('/fake/a.ts'), createFileTab('/fake/b.ts')];
+
+		await TabEvents.runOwnChange(async () => {
+			tabGroups.focus(moved);
+			tabGroups.focus(other);
+		});
+		// Events arriving right after the operation still belong to it
+		tabGroups.focus(moved);
+
+		assert.strictEqual(service.getLastFocused(moved), undefined);
+		assert.strictEqual(service.getLastFocused(other), undefined);
+		service.dispose();
+	});
+});
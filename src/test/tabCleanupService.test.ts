@@ -0,0 +1,146 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { GitDiffEditorService } from '../services/gitDiffEditorService';
+import { GitRepositoryService } from '../services/gitRepositoryService';
+import { TabActivityService } from '../services/tabActivityService';
+import { TabCleanupService, TabCleanupSource } from '../services/tabCleanupService';
+import { TabInputService } from '../services/tabInputService';
+import { TabLayoutService } from '../services/tabLayoutService';
+import { TabOperationJournalService } from '../services/tabOperationJournalService';
+import { TabEvents } from '../utils/tabEvents';
+import { createFakeTabGroups, createFileTab, createTab, waitForOwnChangeGrace } from './fixtures/fakeTabs';
+
+const context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+
+/**
+ * Activity service that started tracking tabs the given number of minutes ago
+ */
+function createActivityService(tabGroups: ReturnType<typeof createFakeTabGroups>, minutesAgo: number): TabActivityService {
+	const now = Date.now;
+	Date.now = () => now() - minutesAgo * 60000;
+	try {
+		return new TabActivityService(new TabInputService(), tabGroups);
+	} finally {
+		Date.now = now;
+	}
+}
+
+function createCleanupService(activityService: TabActivityService): TabCleanupService {
+	return new TabCleanupService(
+		new GitDiffEditorService(new GitRepositoryService(async () => undefined)),
+		activityService,
+		new TabOperationJournalService(new TabLayoutService(context))
+	);
+}
+
+suite('TabCleanupService', () => {
+	test('notVisitedFor ignores tabs CleanX moved', async () => {
+		const tabGroups = createFakeTabGroups();
+		const activityService = createActivityService(tabGroups, 120);
+		const service = createCleanupService(activityService);
+		const tab = createFileTab('/fake/a.ts');
+
+		// Reordering activates every tab it moves
+		await TabEvents.runOwnChange(async () => tabGroups.focus(tab));
+		const [verdict] = await service.classifyTabs([tab], [{ action: 'include', notVisitedFor: 60 }]);
+
+		assert.strictEqual(verdict.close, true);
+		activityService.dispose();
+	});
+
+	test('notVisitedFor keeps tabs the user visited', async () => {
+		await waitForOwnChangeGrace();
+		const tabGroups = createFakeTabGroups();
+		const activityService = createActivityService(tabGroups, 120);
+		const service = createCleanupService(activityService);
+		const [visited, forgotten] = [createFileTab('/fake/a.ts'), createFileTab('/fake/b.ts')];
+
+		tabGroups.focus(visited);
+		const verdicts = await service.classifyTabs([visited, forgotten], [{ action: 'include', notVisitedFor: 60 }]);
+
+		assert.deepStrictEqual(verdicts.map(verdict => verdict.close), [false, true]);
+		activityService.dispose();
+	});
+
+	test('the first matching rule decides', async () => {
+		const service = createCleanupService(createActivityService(createFakeTabGroups(), 0));
+		const tabs = ['/fake/readme.md', '/fake/debug.log', '/fake/a.ts'].map(filePath => createFileTab(filePath));
+
+		const verdicts = await service.classifyTabs(tabs, [
+			{ action: 'exclude', name: 'Keep docs', glob: '*.md' },
+			{ action: 'include', glob: '*.{md,log}' }
+		]);
+
+		assert.deepStrictEqual(verdicts.map(({ close, ruleIndex, reason }) => ({ close, ruleIndex, reason })), [
+			{ close: false, ruleIndex: 0, reason: 'Keep docs' },
+			{ close: true, ruleIndex: 1, reason: 'glob *.{md,log}' },
+			{ close: false, ruleIndex: undefined, reason: 'No rule matched' }
+		]);
+	});
+
+	test('a rule matches only tabs meeting all of its criteria', async () => {
+		const service = createCleanupService(createActivityService(createFakeTabGroups(), 0));
+		const tabs = [createFileTab('/fake/a.ts'), createFileTab('/fake/b.ts', { isPinned: true }), createFileTab('/fake/c.ts', { isDirty: true })];
+
+		const verdicts = await service.classifyTabs(tabs, [{ action: 'include', glob: '*.ts', isPinned: false, isDirty: false }]);
+
+		assert.deepStrictEqual(verdicts.map(verdict => verdict.close), [true, false, false]);
+	});
+
+	test('a rule without criteria matches nothing', async () => {
+		const service = createCleanupService(createActivityService(createFakeTabGroups(), 0));
+
+		const [verdict] = await service.classifyTabs([createFileTab('/fake/a.ts')], [{ action: 'include', name: 'Everything' }]);
+
+		assert.strictEqual(verdict.close, false);
+		assert.strictEqual(verdict.reason, 'No rule matched');
+	});
+
+	test('closes only the tabs left checked in the preview', async () => {
+		const service = createCleanupService(createActivityService(createFakeTabGroups(), 0));
+		const [kept, closed] = [createFileTab('/fake/a.log'), createFileTab('/fake/b.log')];
+		const showQuickPick = vscode.window.showQuickPick;
+		let shown: readonly vscode.QuickPickItem[] = [];
+		// Simulate the user unchecking the first tab
+		vscode.window.showQuickPick = (async (items: readonly vscode.QuickPickItem[]) => {
+			shown = items;
+			return items.slice(1);
+		}) as unknown as typeof vscode.window.showQuickPick;
+
+		try {
+			const picked = await service.pickTabsToClose([
+				{ tab: kept, verdict: { close: true, reason: 'glob *.log' } },
+				{ tab: closed, verdict: { close: true, reason: 'Old logs' } }
+			], 'Clean Tabs');
+
+			assert.deepStrictEqual(shown.map(({ label, detail, picked: isPicked }) => [label, detail, isPicked]), [['a.log', 'glob *.log', true], ['b.log', 'Old logs', true]]);
+			assert.deepStrictEqual(picked, [closed]);
+		} finally {
+			vscode.window.showQuickPick = showQuickPick;
+		}
+	});
+
+	test('finds unmodified file tabs, leaving pinned and dirty ones open when asked to', async () => {
+		const tabs = [
+			createFileTab('/fake/unchanged.ts'),
+			createFileTab('/fake/changed.ts'),
+			createFileTab('/fake/pinned.ts', { isPinned: true }),
+			createFileTab('/fake/dirty.ts', { isDirty: true }),
+			createTab(new vscode.TabInputText(vscode.Uri.parse('untitled:Untitled-1')), 'Untitled-1')
+		];
+		const changed = vscode.Uri.file('/fake/changed.ts').toString();
+		const gitDiffService = {
+			findUnmodifiedFiles: async (uris: vscode.Uri[]) => new Set(uris.map(uri => uri.toString()).filter(uri => uri !== changed))
+		} as unknown as GitDiffEditorService;
+		const tabGroups = { all: [{ tabs }], close: async () => true } as unknown as TabCleanupSource;
+		const activityService = createActivityService(createFakeTabGroups(), 0);
+		const service = new TabCleanupService(gitDiffService, activityService, new TabOperationJournalService(new TabLayoutService(context)), tabGroups);
+
+		const labels = async (keepPinned: boolean, keepDirty: boolean) =>
+			(await service.findUnmodifiedTabs(keepPinned, keepDirty))?.map(({ tab }) => tab.label);
+
+		assert.deepStrictEqual(await labels(true, true), ['unchanged.ts']);
+		assert.deepStrictEqual(await labels(false, false), ['unchanged.ts', 'pinned.ts', 'dirty.ts']);
+		activityService.dispose();
+	});
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TabInputService, WorkspaceFolderSource } from '../services/tabInputService';
+
+function createFolders(...paths: string[]): WorkspaceFolderSource {
+	const workspaceFolders = paths.map((folderPath, index) => ({
+		uri: vscode.Uri.file(folderPath),
+		name: folderPath.split('/').pop() ?? folderPath,
+		index
+	}));
+
+	return {
+		workspaceFolders,
+		getWorkspaceFolder: uri => workspaceFolders.find(folder => uri.path.startsWith(`${folder.uri.path}/`))
+	};
+}
+
+suite('TabInputService', () => {
+	test('stores files inside a workspace folder relative to it', () => {
+		const service = new TabInputService(createFolders('/work/app', '/work/lib'));
+
+		assert.deepStrictEqual(service.toWorkspaceUri(vscode.Uri.file('/work/lib/src/a.ts')), { folder: 'lib', path: 'src/a.ts' });
+		assert.deepStrictEqual(service.toWorkspaceUri(vscode.Uri.file('/tmp/notes.md')), { uri: 'file:///tmp/notes.md' });
+	});
+
+	test('resolves folder-relative locations against the open folders', () => {
+		const service = new TabInputService(createFolders('/work/app', '/work/lib'));
+
+		assert.strictEqual(service.resolveUri({ folder: 'lib', path: 'src/a.ts' })?.path, '/work/lib/src/a.ts');
+		assert.strictEqual(service.resolveUri({ folder: 'docs', path: 'a.md' }), undefined);
+		assert.strictEqual(service.resolveUri({ uri: 'file:///tmp/notes.md' })?.path, '/tmp/notes.md');
+	});
+
+	test('resolves locations of a renamed folder when only one folder is open', () => {
+		const service = new TabInputService(createFolders('/work/app-clone'));
+
+		assert.strictEqual(service.resolveUri({ folder: 'app', path: 'src/a.ts' })?.path, '/work/app-clone/src/a.ts');
+	});
+
+	test('makes absolute locations of older versions folder-relative', () => {
+		const service = new TabInputService(createFolders('/work/app'));
+
+		assert.deepStrictEqual(service.normalizeWorkspaceUri('file:///work/app/a.ts'), { folder: 'app', path: 'a.ts' });
+		assert.deepStrictEqual(service.normalizeWorkspaceUri({ uri: 'file:///work/app/a.ts' }), { folder: 'app', path: 'a.ts' });
+		assert.deepStrictEqual(service.normalizeWorkspaceUri({ uri: 'file:///tmp/b.ts' }), { uri: 'file:///tmp/b.ts' });
+	});
+});
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TabLayoutService, TabLayoutSource } from '../services/tabLayoutService';
+import { createFakeContext, disposeContext } from './fixtures/fakeContext';
+import { createFileTab, createTab } from './fixtures/fakeTabs';
+import { initializeLogger } from './fixtures/logger';
+
+/**
+ * Stand-in for `vscode.window.tabGroups` with fixed groups of tabs
+ */
+function createTabGroups(...groups: Array<{ tabs: vscode.Tab[], isActive?: boolean }>): TabLayoutSource {
+	return {
+		all: groups.map((group, index) => ({ viewColumn: index + 1, tabs: group.tabs, isActive: group.isActive ?? false })),
+		close: async () => true
+	} as unknown as TabLayoutSource;
+}
+
+suite('TabLayoutService', () => {
+	suiteSetup(() => initializeLogger());
+
+	test('captures pinned, preview and active state of each tab', () => {
+		const context = createFakeContext();
+		const service = new TabLayoutService(context, createTabGroups(
+			{ tabs: [createFileTab('/fake/a.ts', { isPinned: true }), createFileTab('/fake/b.ts', { isPreview: true, isActive: true })] },
+			{ tabs: [createTab(new vscode.TabInputTerminal(), 'bash', { isActive: true }), createTab({}, 'Unknown')], isActive: true }
+		));
+
+		const groups = service.captureGroups();
+
+		assert.deepStrictEqual(groups.map(group => [group.viewColumn, group.isActive]), [[1, false], [2, true]]);
+		assert.deepStrictEqual(
+			groups.map(group => group.tabs.map(tab => [tab.label, tab.isPinned, tab.isPreview, tab.isActive])),
+			[
+				[['a.ts', true, false, false], ['b.ts', false, true, true]],
+				[['bash', false, false, true]]
+			]
+		);
+		disposeContext(context);
+	});
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TabLayoutSnapshot } from '../types';
+import { TabLayoutService } from '../services/tabLayoutService';
+import { TabOperationJournalService } from '../services/tabOperationJournalService';
+import { initializeLogger } from './fixtures/logger';
+
+/**
+ * Layout service that numbers the layouts it captures and logs the numbers of the layouts it restores
+ * @param restore Result of restoring a layout, undefined when the user cancels
+ */
+function createFakeLayoutService(restored: number[], restore: () => { opened: number, skipped: number } | undefined = () => ({ opened: 1, skipped: 0 })): TabLayoutService {
+	let captured = 0;
+
+	return {
+		captureLayout: async () => ({ groups: [{ viewColumn: ++captured, tabs: [], isActive: true }] }),
+		applyLayout: async (snapshot: TabLayoutSnapshot) => {
+			restored.push(snapshot.groups[0].viewColumn);
+			return restore();
+		}
+	} as unknown as TabLayoutService;
+}
+
+suite('TabOperationJournalService', () => {
+	const configuration = () => vscode.workspace.getConfiguration('cleanx');
+
+	suiteSetup(async () => {
+		initializeLogger();
+		await configuration().update('undoHistorySize', 2, vscode.ConfigurationTarget.Global);
+	});
+	suiteTeardown(() => configuration().update('undoHistorySize', undefined, vscode.ConfigurationTarget.Global));
+
+	test('keeps only the most recent operations', async () => {
+		const journal = new TabOperationJournalService(createFakeLayoutService([]));
+
+		await journal.record('Sort Tabs');
+		await journal.record('Clean Tabs');
+		await journal.record('Load Workspace');
+
+		assert.deepStrictEqual(journal.getHistory().map(record => record.operation), ['Load Workspace', 'Clean Tabs']);
+		assert.strictEqual(journal.getLastOperation()?.operation, 'Load Workspace');
+	});
+
+	test('undoes operations from the most recent one', async () => {
+		const restored: number[] = [];
+		const journal = new TabOperationJournalService(createFakeLayoutService(restored));
+		await journal.record('Sort Tabs');
+		await journal.record('Clean Tabs');
+
+		assert.deepStrictEqual(await journal.undo(), { opened: 1, skipped: 0 });
+		assert.deepStrictEqual(await journal.undo(), { opened: 1, skipped: 0 });
+		assert.strictEqual(await journal.undo(), undefined);
+		assert.deepStrictEqual(restored, [2, 1]);
+	});
+
+	test('keeps an operation whose undo was cancelled', async () => {
+		const restored: number[] = [];
+		const journal = new TabOperationJournalService(createFakeLayoutService(restored, () => undefined));
+		await journal.record('Sort Tabs');
+
+		assert.strictEqual(await journal.undo(), undefined);
+		assert.strictEqual(journal.getLastOperation()?.operation, 'Sort Tabs');
+		assert.deepStrictEqual(restored, [1]);
+	});
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { TabReorderService } from '../services/tabReorderService';
+
+/**
+ * Apply planned moves to tabs `0..n-1` the way `moveActiveEditor` would
+ */
+function applyMoves(order: number[]): number[] {
+	const tabs = order.map((_, index) => index);
+	for (const { from, to } of TabReorderService.planMoves(order)) {
+		const [tab] = tabs.splice(from, 1);
+		tabs.splice(to, 0, tab);
+	}
+	return tabs;
+}
+
+suite('TabReorderService', () => {
+	test('plans no moves for tabs already in order', () => {
+		assert.deepStrictEqual(TabReorderService.planMoves([]), []);
+		assert.deepStrictEqual(TabReorderService.planMoves([0, 1, 2, 3]), []);
+	});
+
+	test('moves only the tabs off the longest increasing run', () => {
+		assert.deepStrictEqual(TabReorderService.planMoves([1, 2, 3, 0]), [{ from: 0, to: 3 }]);
+		assert.deepStrictEqual(TabReorderService.planMoves([3, 0, 1, 2]), [{ from: 3, to: 0 }]);
+		assert.strictEqual(TabReorderService.planMoves([4, 3, 2, 1, 0]).length, 4);
+		assert.strictEqual(TabReorderService.planMoves([2, 0, 4, 1, 3]).length, 2);
+	});
+
+	test('brings tabs into the target order', () => {
+		for (const order of [[1, 0], [2, 0, 1], [4, 3, 2, 1, 0], [2, 0, 4, 1, 3], [5, 1, 4, 0, 2, 3], [0, 3, 1, 4, 2]]) {
+			assert.deepStrictEqual(applyMoves(order), order, `order ${order.join(', ')}`);
+		}
+	});
+
+	test('leaves pinned tabs in front alone', () => {
+		// Tabs 0 and 1 are pinned and stay first, only the unpinned tabs change order
+		const moves = TabReorderService.planMoves([0, 1, 4, 2, 3]);
+
+		assert.ok(moves.length > 0);
+		assert.ok(moves.every(({ from, to }) => from >= 2 && to >= 2), JSON.stringify(moves));
+	});
+});
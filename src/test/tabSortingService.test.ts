@@ -0,0 +1,219 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TabSortKey, TabSortOptions, TabSortRule } from '../types';
+import { TabActivityService } from '../services/tabActivityService';
+import { TabInputService } from '../services/tabInputService';
+import { TabLayoutService } from '../services/tabLayoutService';
+import { TabOperationJournalService } from '../services/tabOperationJournalService';
+import { TabReorderService } from '../services/tabReorderService';
+import { TabSortingService, TabSortingSource } from '../services/tabSortingService';
+import { createFakeContext, disposeContext } from './fixtures/fakeContext';
+import { createFakeTabGroups, createFileTab, createTab, waitForOwnChangeGrace } from './fixtures/fakeTabs';
+
+function sortOptions(keys: TabSortKey[], options: Partial<TabSortOptions> = {}): TabSortOptions {
+	return { keys, customFileTypeOrder: [], rules: [], stemSuffixes: [], stemRoles: [], ...options };
+}
+
+/**
+ * Stand-in for `vscode.window.tabGroups` with a group of file tabs per list of paths, the last group active
+ */
+function createTabGroups(...groupPaths: string[][]): TabSortingSource & { open(filePath: string, viewColumn: number): void } {
+	const tabsChanged = new vscode.EventEmitter<vscode.TabChangeEvent>();
+	const groups = groupPaths.map((paths, index) => {
+		const group = { viewColumn: index + 1, isActive: index === groupPaths.length - 1, tabs: [] as vscode.Tab[], activeTab: undefined };
+		group.tabs = paths.map(filePath => ({ ...createFileTab(filePath), group }) as unknown as vscode.Tab);
+		return group;
+	});
+
+	return {
+		all: groups as unknown as vscode.TabGroup[],
+		activeTabGroup: groups[groups.length - 1] as unknown as vscode.TabGroup,
+		onDidChangeTabs: tabsChanged.event,
+		open: (filePath, viewColumn) => {
+			const group = groups[viewColumn - 1];
+			const tab = { ...createFileTab(filePath), group } as unknown as vscode.Tab;
+			group.tabs.push(tab);
+			tabsChanged.fire({ opened: [tab], closed: [], changed: [] });
+		}
+	};
+}
+
+/**
+ * Reorder service that records the orders it is asked to put groups in, without moving tabs
+ */
+function createRecordingReorderService(reordered: Array<[number, number[]]>): TabReorderService {
+	return {
+		reorderGroup: async (viewColumn: number, order: number[]) => {
+			reordered.push([viewColumn, order]);
+			return TabReorderService.planMoves(order).length;
+		},
+		activateTab: async () => undefined
+	} as unknown as TabReorderService;
+}
+
+suite('TabSortingService', () => {
+	let context: vscode.ExtensionContext;
+	let activityService: TabActivityService;
+	let service: TabSortingService;
+
+	/**
+	 * Sort tabs of the given paths and return the paths in sorted order
+	 */
+	async function sortPaths(paths: string[], options: TabSortOptions): Promise<string[]> {
+		const order = await service.computeSortedOrder(paths.map(filePath => createFileTab(filePath)), options);
+		return order.map(index => paths[index]);
+	}
+
+	setup(() => {
+		context = createFakeContext();
+		const layoutService = new TabLayoutService(context);
+		activityService = new TabActivityService(new TabInputService(), createFakeTabGroups());
+		service = new TabSortingService(context, new TabOperationJournalService(layoutService), activityService);
+	});
+
+	teardown(() => {
+		activityService.dispose();
+		disposeContext(context);
+	});
+
+	test('sorts by file name, ignoring case', async () => {
+		assert.deepStrictEqual(
+			await sortPaths(['/fake/c.ts', '/fake/B.ts', '/fake/a.ts'], sortOptions(['name'])),
+			['/fake/a.ts', '/fake/B.ts', '/fake/c.ts']
+		);
+	});
+
+	test('falls through to the next key on ties and keeps the order of equal tabs', async () => {
+		assert.deepStrictEqual(
+			await sortPaths(['/fake/b.ts', '/fake/a.md', '/fake/x/a.ts', '/fake/a.ts'], sortOptions(['extension', 'name'])),
+			['/fake/a.md', '/fake/x/a.ts', '/fake/a.ts', '/fake/b.ts']
+		);
+	});
+
+	test('puts extensions of the custom order first, in that order', async () => {
+		assert.deepStrictEqual(
+			await sortPaths(['/fake/a.css', '/fake/a.ts', '/fake/a.html', '/fake/a.js'], sortOptions(['extension'], { customFileTypeOrder: ['ts', 'html'] })),
+			['/fake/a.ts', '/fake/a.html', '/fake/a.css', '/fake/a.js']
+		);
+	});
+
+	test('sorts tabs a key does not apply to last', async () => {
+		const tabs = [createTab(undefined, 'Welcome'), createFileTab('/fake/b/a.ts'), createFileTab('/fake/a/a.ts')];
+
+		assert.deepStrictEqual(await service.computeSortedOrder(tabs, sortOptions(['directory'])), [2, 1, 0]);
+	});
+
+	test('keeps pinned tabs in front of unpinned ones', async () => {
+		const tabs = [
+			createFileTab('/fake/a.ts'),
+			createFileTab('/fake/d.ts', { isPinned: true }),
+			createFileTab('/fake/b.ts'),
+			createFileTab('/fake/c.ts', { isPinned: true })
+		];
+
+		assert.deepStrictEqual(await service.computeSortedOrder(tabs, sortOptions(['name'])), [3, 1, 0, 2]);
+	});
+
+	test('orders tabs by the priority of their ordering rule, unmatched tabs last', async () => {
+		const rules = [{ glob: '*.md', priority: 10 }, { filename: 'package.json', priority: 20 }, { regex: '\\.spec\\.' }];
+
+		assert.deepStrictEqual(
+			await sortPaths(['/fake/z.ts', '/fake/readme.md', '/fake/package.json', '/fake/a.spec.ts', '/fake/b.ts'], sortOptions(['rule', 'name'], { rules })),
+			['/fake/package.json', '/fake/readme.md', '/fake/a.spec.ts', '/fake/b.ts', '/fake/z.ts']
+		);
+	});
+
+	test('applies the rule with the highest priority when rules overlap', async () => {
+		const rules = [{ glob: '*.ts' }, { filename: 'b.ts', priority: 5 }];
+
+		assert.deepStrictEqual(
+			await sortPaths(['/fake/c.md', '/fake/a.ts', '/fake/b.ts'], sortOptions(['rule'], { rules })),
+			['/fake/b.ts', '/fake/a.ts', '/fake/c.md']
+		);
+	});
+
+	test('orders tabs matched by a rule by its own sort keys first', async () => {
+		const rules: TabSortRule[] = [{ glob: '*.{ts,tsx}', sortKeys: ['name'] }];
+
+		assert.deepStrictEqual(
+			await sortPaths(['/fake/b.ts', '/fake/c.md', '/fake/a.tsx'], sortOptions(['rule', 'extension'], { rules })),
+			['/fake/a.tsx', '/fake/b.ts', '/fake/c.md']
+		);
+	});
+
+	test('clusters related files by stem and orders them by role', async () => {
+		const options = sortOptions(['stem', 'role'], { stemSuffixes: ['.test', 'spec', 'stories'], stemRoles: ['main', 'test', 'stories'] });
+
+		assert.deepStrictEqual(
+			await sortPaths(['/fake/Button.test.tsx', '/fake/Card.tsx', '/fake/Card.spec.ts', '/fake/Button.tsx', '/fake/Button.stories.tsx'], options),
+			['/fake/Button.tsx', '/fake/Button.test.tsx', '/fake/Button.stories.tsx', '/fake/Card.tsx', '/fake/Card.spec.ts']
+		);
+	});
+
+	test('takes the role from the suffix closest to the stem', async () => {
+		const options = sortOptions(['role'], { stemSuffixes: ['test', 'stories'], stemRoles: ['stories', 'test'] });
+
+		assert.deepStrictEqual(
+			await sortPaths(['/fake/a.test.tsx', '/fake/a.stories.test.tsx'], options),
+			['/fake/a.stories.test.tsx', '/fake/a.test.tsx']
+		);
+	});
+
+	suite('groups', () => {
+		let recorded: string[];
+		let reordered: Array<[number, number[]]>;
+		const journal = () => ({ record: async (operation: string) => { recorded.push(operation); } }) as unknown as TabOperationJournalService;
+
+		setup(() => {
+			recorded = [];
+			reordered = [];
+		});
+
+		test('sorts each group on its own and records the operation once', async () => {
+			const service = new TabSortingService(context, journal(), activityService,
+				createTabGroups(['/fake/b.ts', '/fake/a.ts'], ['/fake/d.ts', '/fake/c.ts']), createRecordingReorderService(reordered));
+
+			assert.strictEqual(await service.sortTabs(sortOptions(['name'])), 2);
+			assert.deepStrictEqual(reordered, [[1, [1, 0]], [2, [1, 0]]]);
+			assert.deepStrictEqual(recorded, ['Sort Tabs']);
+		});
+
+		test('sorts only the active group', async () => {
+			const service = new TabSortingService(context, journal(), activityService,
+				createTabGroups(['/fake/b.ts', '/fake/a.ts'], ['/fake/d.ts', '/fake/c.ts']), createRecordingReorderService(reordered));
+
+			await service.sortActiveGroup(sortOptions(['name']));
+
+			assert.deepStrictEqual(reordered, [[2, [1, 0]]]);
+			assert.deepStrictEqual(recorded, ['Sort Active Group']);
+		});
+
+		test('records nothing when the tabs are already sorted', async () => {
+			const service = new TabSortingService(context, journal(), activityService,
+				createTabGroups(['/fake/a.ts', '/fake/b.ts']), createRecordingReorderService(reordered));
+
+			assert.strictEqual(await service.sortTabs(sortOptions(['name'])), 0);
+			assert.deepStrictEqual(recorded, []);
+		});
+
+		test('keeps sorted only the groups tabs were opened in', async function () {
+			this.timeout(5000);
+			const configuration = vscode.workspace.getConfiguration('cleanx');
+			await configuration.update('keepTabsSorted', true, vscode.ConfigurationTarget.Global);
+			const tabGroups = createTabGroups(['/fake/b.ts', '/fake/a.ts'], ['/fake/c.ts', '/fake/d.ts']);
+			new TabSortingService(context, journal(), activityService, tabGroups, createRecordingReorderService(reordered));
+
+			try {
+				await waitForOwnChangeGrace();
+				tabGroups.open('/fake/a.ts', 2);
+				// Wait for the debounced sort
+				await new Promise(resolve => setTimeout(resolve, 400));
+
+				assert.deepStrictEqual(reordered.map(([viewColumn]) => viewColumn), [2]);
+				assert.deepStrictEqual(recorded, []);
+			} finally {
+				await configuration.update('keepTabsSorted', undefined, vscode.ConfigurationTarget.Global);
+			}
+		});
+	});
+});
@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { TabLayoutService } from '../services/tabLayoutService';
+import { TabOperationJournalService } from '../services/tabOperationJournalService';
+import { TabWorkspaceService } from '../services/tabWorkspaceService';
+import { createFakeContext, disposeContext } from './fixtures/fakeContext';
+import { initializeLogger } from './fixtures/logger';
+
+const STATE_KEY = 'cleanx.tabWorkspaces';
+
+function createService(context: vscode.ExtensionContext): TabWorkspaceService {
+	const layoutService = new TabLayoutService(context);
+	return new TabWorkspaceService(context, layoutService, new TabOperationJournalService(layoutService));
+}
+
+suite('TabWorkspaceService', () => {
+	suiteSetup(() => initializeLogger());
+
+	test('branch workspaces never replace a workspace the user saved under their name', async () => {
+		const context = createFakeContext();
+		const service = createService(context);
+		const scope = service.getCurrentScope();
+
+		await service.saveCurrentTabsAsWorkspace('Branch: main', false, scope);
+		await service.saveBranchWorkspace('main');
+		await service.saveBranchWorkspace('main');
+
+		assert.deepStrictEqual(
+			service.getWorkspaces().sort((a, b) => a.name.localeCompare(b.name)).map(workspace => [workspace.name, workspace.branch]),
+			[['Branch: main', undefined], ['Branch: main (2)', 'main']]
+		);
+		assert.strictEqual(service.getBranchWorkspace('main')?.name, 'Branch: main (2)');
+		disposeContext(context);
+	});
+
+	test('restores legacy workspaces with a flat tab list into the first group', async () => {
+		const context = createFakeContext();
+		await context.globalState.update(STATE_KEY, { workspaces: [
+			{ name: 'Legacy', tabs: ['file:///fake/a.ts', 'file:///fake/b.ts'], createdAt: '2024-01-01T00:00:00.000Z', lastModified: '2024-01-01T00:00:00.000Z' }
+		] });
+		const service = createService(context);
+
+		await service.migrateStoredWorkspaces();
+
+		const [workspace] = context.globalState.get<{ workspaces: Array<Record<string, unknown>> }>(STATE_KEY)?.workspaces ?? [];
+		assert.strictEqual(workspace.tabs, undefined);
+		assert.deepStrictEqual(workspace.groups, [{
+			viewColumn: vscode.ViewColumn.One,
+			isActive: true,
+			tabs: ['a.ts', 'b.ts'].map(name => ({
+				input: { kind: 'text', uri: { uri: `file:///fake/${name}` } },
+				label: name,
+				isPinned: false,
+				isPreview: false,
+				isActive: false
+			}))
+		}]);
+		disposeContext(context);
+	});
+
+	test('upgrades legacy tabs stored as URIs to typed inputs', async () => {
+		const context = createFakeContext();
+		const terminal = { input: { kind: 'terminal' }, label: 'bash', isPinned: false, isPreview: false, isActive: true };
+		await context.globalState.update(STATE_KEY, { workspaces: [{
+			name: 'Legacy',
+			groups: [
+				{ viewColumn: 1, tabs: ['file:///fake/a.ts', { uri: 'file:///fake/b.ts', label: 'B', isPinned: true, isPreview: false, isActive: true }] },
+				{ viewColumn: 2, tabs: [terminal] }
+			],
+			createdAt: '2024-01-01T00:00:00.000Z',
+			lastModified: '2024-01-01T00:00:00.000Z'
+		}] });
+		const service = createService(context);
+
+		const [workspace] = service.getWorkspaces(true);
+
+		assert.deepStrictEqual(workspace.groups.map(group => group.isActive), [true, false]);
+		assert.deepStrictEqual(workspace.groups[0].tabs, [
+			{ input: { kind: 'text', uri: { uri: 'file:///fake/a.ts' } }, label: 'a.ts', isPinned: false, isPreview: false, isActive: false },
+			{ input: { kind: 'text', uri: { uri: 'file:///fake/b.ts' } }, label: 'B', isPinned: true, isPreview: false, isActive: true }
+		]);
+		assert.deepStrictEqual(workspace.groups[1].tabs, [terminal]);
+		disposeContext(context);
+	});
+
+	test('shows workspaces of the current scope unless asked for all scopes', async () => {
+		const context = createFakeContext();
+		const service = createService(context);
+		const stored = (name: string, scope?: string) => ({
+			name,
+			scope,
+			groups: [{ viewColumn: 1, isActive: true, tabs: [] }],
+			createdAt: '2024-01-01T00:00:00.000Z',
+			lastModified: '2024-01-01T00:00:00.000Z'
+		});
+		await context.globalState.update(STATE_KEY, { workspaces: [
+			stored('Here', service.getCurrentScope()),
+			stored('Elsewhere', 'file:///work/other|file:///work/lib'),
+			stored('Unassigned'),
+			stored('Both', 'file:///work/other'),
+			stored('Both', service.getCurrentScope())
+		] });
+
+		assert.deepStrictEqual(service.getWorkspaces().map(workspace => workspace.name).sort(), ['Both', 'Here']);
+		assert.deepStrictEqual(service.getWorkspaces(true).map(workspace => workspace.name).sort(), ['Both', 'Both', 'Elsewhere', 'Here', 'Unassigned']);
+		assert.strictEqual(service.getWorkspace('Both')?.scope, service.getCurrentScope());
+		assert.strictEqual(service.getWorkspace('Both', 'file:///work/other')?.scope, 'file:///work/other');
+		assert.strictEqual(service.getScopeLabel('file:///work/other|file:///work/lib'), 'other, lib');
+		disposeContext(context);
+	});
+});
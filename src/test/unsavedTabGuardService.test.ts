@@ -0,0 +1,39 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { UnsavedTabGuardService } from '../services/unsavedTabGuardService';
+import { createFileTab, createTab } from './fixtures/fakeTabs';
+import { initializeLogger } from './fixtures/logger';
+
+suite('UnsavedTabGuardService', () => {
+	const configuration = () => vscode.workspace.getConfiguration('cleanx');
+	const setAction = (action: string | undefined) => configuration().update('unsavedTabsAction', action, vscode.ConfigurationTarget.Global);
+
+	suiteSetup(() => initializeLogger());
+	teardown(() => setAction(undefined));
+
+	test('treats dirty and untitled tabs as unsaved', () => {
+		const guard = new UnsavedTabGuardService();
+
+		assert.strictEqual(guard.isUnsaved(createFileTab('/fake/a.ts', { isDirty: true })), true);
+		assert.strictEqual(guard.isUnsaved(createTab(new vscode.TabInputText(vscode.Uri.parse('untitled:Untitled-1')), 'Untitled-1')), true);
+		assert.strictEqual(guard.isUnsaved(createFileTab('/fake/a.ts')), false);
+		assert.strictEqual(guard.isUnsaved(createTab(new vscode.TabInputTerminal(), 'bash')), false);
+	});
+
+	test('keeps unsaved tabs open when configured to', async () => {
+		await setAction('keepOpen');
+		const guard = new UnsavedTabGuardService();
+		const [saved, dirty] = [createFileTab('/fake/a.ts'), createFileTab('/fake/b.ts', { isDirty: true })];
+
+		assert.deepStrictEqual(await guard.getClosableTabs([saved, dirty], 'Clean Tabs'), [saved]);
+	});
+
+	test('cancels the operation when configured to', async () => {
+		await setAction('cancel');
+		const guard = new UnsavedTabGuardService();
+		const [saved, dirty] = [createFileTab('/fake/a.ts'), createFileTab('/fake/b.ts', { isDirty: true })];
+
+		assert.strictEqual(await guard.getClosableTabs([saved, dirty], 'Clean Tabs'), undefined);
+		assert.deepStrictEqual(await guard.getClosableTabs([saved], 'Clean Tabs'), [saved]);
+	});
+});
@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+
+/**
+ * Subset of the API exported by the built-in Git extension (`vscode.git`, API version 1).
+ * See extensions/git/src/api/git.d.ts in the VS Code repository for the full definitions.
+ */
+
+export interface GitExtension {
+    readonly enabled: boolean;
+    getAPI(version: 1): GitAPI;
+}
+
+export interface GitAPI {
+    readonly repositories: GitRepository[];
+    readonly onDidOpenRepository: vscode.Event<GitRepository>;
+    getRepository(uri: vscode.Uri): GitRepository | null;
+}
+
+export interface GitRepository {
+    readonly rootUri: vscode.Uri;
+    readonly state: GitRepositoryState;
+    checkIgnore?(paths: string[]): Promise<Set<string>>; // Missing in older VS Code versions
+}
+
+export interface GitRepositoryState {
+    readonly HEAD: GitBranch | undefined;
+    readonly mergeChanges: GitChange[];
+    readonly indexChanges: GitChange[];
+    readonly workingTreeChanges: GitChange[];
+    readonly untrackedChanges?: GitChange[]; // Only populated when untracked changes are shown separately
+    readonly onDidChange: vscode.Event<void>;
+}
+
+export interface GitBranch {
+    readonly name?: string;   // Undefined for a detached HEAD
+    readonly commit?: string;
+}
+
+export interface GitChange {
+    readonly uri: vscode.Uri;
+    readonly originalUri: vscode.Uri;
+    readonly renameUri: vscode.Uri | undefined;
+    readonly status: GitStatus;
+}
+
+export enum GitStatus {
+    INDEX_MODIFIED,
+    INDEX_ADDED,
+    INDEX_DELETED,
+    INDEX_RENAMED,
+    INDEX_COPIED,
+
+    MODIFIED,
+    DELETED,
+    UNTRACKED,
+    IGNORED,
+    INTENT_TO_ADD,
+    INTENT_TO_RENAME,
+    TYPE_CHANGED,
+
+    ADDED_BY_US,
+    ADDED_BY_THEM,
+    DELETED_BY_US,
+    DELETED_BY_THEM,
+    BOTH_ADDED,
+    BOTH_DELETED,
+    BOTH_MODIFIED
+}
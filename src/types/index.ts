@@ -8,6 +8,153 @@ export interface ExtensionConfig {
     confirmBeforeClosing: boolean;
     sortAfterClosing: boolean;
     customFileTypeOrder: string[];
+    sortKeys: TabSortKey[];
+    sortRules: TabSortRule[];
+    stemSuffixes: string[];
+    stemRoles: string[];
+    sortPresets: TabSortPreset[];
+    consolidateGroupsWhenSorting: boolean;
+    keepTabsSorted: boolean;
+    defaultWorkspaceScope: TabWorkspaceScopeSetting;
+    autoUpdateWorkspace: boolean;
+    unsavedTabsAction: UnsavedTabsAction;
+    undoHistorySize: number;
+    cleanRules: TabCloseRule[];
+    keepPinnedUnmodifiedFiles: boolean;
+    keepDirtyUnmodifiedFiles: boolean;
+    autoCloseMissingFileTabs: boolean;
+    branchWorkspaces: boolean;
+}
+
+/**
+ * Where newly saved tab workspaces are stored
+ */
+export type TabWorkspaceScopeSetting = 'workspace' | 'global';
+
+/**
+ * Keys tabs can be sorted by. Ties on one key fall through to the next key in the chain.
+ */
+export type TabSortKey =
+    | 'rule'            // Priority of the first matching `sortRules` entry
+    | 'extension'       // File extension, honoring `customFileTypeOrder`
+    | 'name'            // File name
+    | 'path'            // Full path relative to the workspace
+    | 'directory'       // Parent folder
+    | 'workspaceFolder' // Position of the containing workspace folder
+    | 'recent'          // Last focused, most recent first
+    | 'gitStatus'       // Git changes first (conflicts, modified, staged, untracked)
+    | 'size'            // File size, smallest first
+    | 'language'        // Language ID of the document
+    | 'stem'            // File name without extension and `stemSuffixes`, clusters related files
+    | 'role';           // Position of the file's suffix in `stemRoles` ('main' for files without one)
+
+/**
+ * Ordering rule for tabs. A rule matches by glob, file name or regular expression
+ * (all given conditions must match).
+ */
+export interface TabSortRule {
+    glob?: string;      // Matched against the workspace-relative path, or the file name if it has no slash
+    filename?: string;  // Exact file name
+    regex?: string;     // Matched against the workspace-relative path
+    priority?: number;  // Higher priorities come first; unmatched tabs have priority 0 (default: 0)
+    sortKeys?: TabSortKey[]; // Ordering among tabs matched by this rule, before the global sort keys apply
+}
+
+/**
+ * A named sort key chain offered by the Sort Tabs command
+ */
+export interface TabSortPreset {
+    name: string;
+    keys: TabSortKey[];
+}
+
+/**
+ * Options for a single sort run
+ */
+export interface TabSortOptions {
+    keys: TabSortKey[];
+    customFileTypeOrder: string[];
+    rules: TabSortRule[];
+    stemSuffixes: string[];
+    stemRoles: string[];
+}
+
+/**
+ * How a file differs from the Git HEAD commit
+ */
+export type GitChangeKind = 'conflict' | 'modified' | 'staged' | 'untracked';
+
+/**
+ * What to do with dirty and untitled tabs when an operation closes tabs in bulk
+ */
+export type UnsavedTabsAction = 'ask' | 'saveAll' | 'keepOpen' | 'cancel';
+
+/**
+ * A rule deciding whether Clean Tabs closes a tab. All criteria given must match;
+ * the first matching rule decides, tabs matching no rule stay open.
+ */
+export interface TabCloseRule {
+    action: 'include' | 'exclude'; // include closes matching tabs, exclude keeps them open
+    name?: string;          // Shown when explaining why a tab matched
+    scheme?: string;        // URI scheme of either side of the tab (e.g. "git", "untitled")
+    glob?: string;          // Matched against the workspace-relative path, or the file name if it has no slash
+    label?: string;         // Regular expression matched against the tab label
+    inputType?: TabWorkspaceInput['kind'];
+    isDirty?: boolean;
+    isPinned?: boolean;
+    languageId?: string;    // Language of the open text document
+    notVisitedFor?: number; // Minutes since the tab was last focused
+    gitEditor?: boolean;    // Git diff, Index and Working Tree editors
+    gitignored?: boolean;   // File is ignored by .gitignore
+}
+
+/**
+ * Rule that recognized a Git editor:
+ * - `gitRepository`: the tab shows the Index or a commit version of a file in a repository of the Git extension
+ * - `gitUriScheme`: a URI uses a Git scheme such as `git:` or `gitlens:`
+ * - `gitUriAuthority`: a URI authority contains `git`, `scm` or `diff`
+ * - `gitUriQuery`: a URI query contains `git`, `scm`, `working`, `index` or `head`
+ * - `sameFileDiff`: a diff compares one file across two schemes
+ * - `diffLabel`: a diff label contains a diff marker such as `↔`, ` vs ` or `Index`
+ * - `gitLabel`: a file label ends with `(Index)` or `(Working Tree)`
+ */
+export type GitEditorRule = 'gitRepository' | 'gitUriScheme' | 'gitUriAuthority' | 'gitUriQuery' | 'sameFileDiff' | 'diffLabel' | 'gitLabel';
+
+/**
+ * Why a tab was classified as a Git editor. Only `gitRepository` and `gitUriScheme` are used
+ * when the Git extension is available, the other rules are heuristics for when it isn't.
+ */
+export interface GitEditorVerdict {
+    rule: GitEditorRule;
+    detail: string; // What exactly matched, e.g. `label contains " vs "`
+}
+
+/**
+ * Outcome of applying close rules to a tab
+ */
+export interface TabCloseVerdict {
+    close: boolean;
+    ruleIndex?: number;       // Index of the deciding rule, undefined if no rule matched
+    rule?: TabCloseRule;
+    gitEditor?: GitEditorVerdict; // Set when a `gitEditor` criterion of the deciding rule matched a Git editor
+    reason: string;           // Human readable summary
+}
+
+/**
+ * A tab selected by close rules, with the verdict that selected it
+ */
+export interface TabCloseMatch {
+    tab: vscode.Tab;
+    verdict: TabCloseVerdict;
+}
+
+/**
+ * An open tab whose file no longer exists
+ */
+export interface MissingFileTab {
+    tab: vscode.Tab;
+    uri: vscode.Uri;
+    renamedTo?: vscode.Uri; // New location if Git knows the file was renamed
 }
 
 /**
@@ -30,21 +177,229 @@ export interface ExtensionContextWrapper {
 }
 
 /**
- * Represents a saved tab workspace with all open file paths
+ * Editor group layout as used by the `vscode.getEditorLayout` and `vscode.setEditorLayout` commands
+ */
+export interface EditorGroupLayout {
+    orientation: number; // 0 = horizontal, 1 = vertical
+    groups: EditorGroupLayoutEntry[];
+}
+
+/**
+ * A single (possibly nested) group entry within an editor group layout
+ */
+export interface EditorGroupLayoutEntry {
+    size?: number;
+    groups?: EditorGroupLayoutEntry[];
+}
+
+/**
+ * A position in a text document, serializable to extension state
+ */
+export interface SerializedPosition {
+    line: number;
+    character: number;
+}
+
+/**
+ * A text editor selection, serializable to extension state
+ */
+export interface SerializedSelection {
+    anchor: SerializedPosition;
+    active: SerializedPosition;
+}
+
+/**
+ * A range in a text document, serializable to extension state
+ */
+export interface SerializedRange {
+    start: SerializedPosition;
+    end: SerializedPosition;
+}
+
+/**
+ * Cursor, selection and scroll state of a text editor
+ */
+export interface EditorViewState {
+    selections: SerializedSelection[];
+    visibleRanges: SerializedRange[];
+}
+
+/**
+ * File inside a workspace folder, stored relative to the folder so it survives clones and renames
+ */
+export interface WorkspaceRelativeUri {
+    folder: string; // Name of the workspace folder
+    path: string; // Path relative to the folder, using forward slashes
+}
+
+/**
+ * Resource outside every workspace folder, stored as an absolute URI string
+ */
+export interface AbsoluteUri {
+    uri: string;
+}
+
+/**
+ * Location of a resource referenced by a tab workspace
+ */
+export type TabWorkspaceUri = WorkspaceRelativeUri | AbsoluteUri;
+
+/**
+ * Text editor tab (`vscode.TabInputText`)
+ */
+export interface TextTabInput {
+    kind: 'text';
+    uri: TabWorkspaceUri;
+}
+
+/**
+ * Text diff editor tab (`vscode.TabInputTextDiff`)
+ */
+export interface TextDiffTabInput {
+    kind: 'textDiff';
+    original: TabWorkspaceUri;
+    modified: TabWorkspaceUri;
+}
+
+/**
+ * Custom editor tab such as image or markdown previews (`vscode.TabInputCustom`)
+ */
+export interface CustomTabInput {
+    kind: 'custom';
+    uri: TabWorkspaceUri;
+    viewType: string;
+}
+
+/**
+ * Notebook editor tab (`vscode.TabInputNotebook`)
+ */
+export interface NotebookTabInput {
+    kind: 'notebook';
+    uri: TabWorkspaceUri;
+    notebookType: string;
+}
+
+/**
+ * Notebook diff editor tab (`vscode.TabInputNotebookDiff`)
+ */
+export interface NotebookDiffTabInput {
+    kind: 'notebookDiff';
+    original: TabWorkspaceUri;
+    modified: TabWorkspaceUri;
+    notebookType: string;
+}
+
+/**
+ * Webview panel tab (`vscode.TabInputWebview`). Webviews are owned by their extension and cannot be reopened.
+ */
+export interface WebviewTabInput {
+    kind: 'webview';
+    viewType: string;
+}
+
+/**
+ * Terminal in the editor area (`vscode.TabInputTerminal`). Restored as a fresh terminal.
+ */
+export interface TerminalTabInput {
+    kind: 'terminal';
+}
+
+/**
+ * Serializable tab input, one variant per VS Code tab input kind
+ */
+export type TabWorkspaceInput =
+    | TextTabInput
+    | TextDiffTabInput
+    | CustomTabInput
+    | NotebookTabInput
+    | NotebookDiffTabInput
+    | WebviewTabInput
+    | TerminalTabInput;
+
+/**
+ * Options used when reopening a tab input
+ */
+export interface TabInputShowOptions {
+    viewColumn: vscode.ViewColumn;
+    preview: boolean;
+    preserveFocus: boolean;
+    selection?: vscode.Range;
+}
+
+/**
+ * A single tab captured in a tab workspace
+ */
+export interface TabWorkspaceTab {
+    input: TabWorkspaceInput;
+    label: string;
+    isPinned: boolean;
+    isPreview: boolean;
+    isActive: boolean; // Whether this was the active tab of its group
+    viewState?: EditorViewState; // Last known cursor and scroll position, if any
+}
+
+/**
+ * An editor group captured in a tab workspace
+ */
+export interface TabWorkspaceGroup {
+    viewColumn: vscode.ViewColumn;
+    tabs: TabWorkspaceTab[]; // Tabs in tab order
+    isActive: boolean; // Whether this group had focus
+}
+
+/**
+ * Open tabs of all editor groups together with the split layout
+ */
+export interface TabLayoutSnapshot {
+    groups: TabWorkspaceGroup[];
+    layout?: EditorGroupLayout;
+}
+
+/**
+ * Entry in the operation journal: the tab layout before a bulk tab operation changed it
+ */
+export interface TabOperationRecord {
+    operation: string; // Human readable name, e.g. "Sort Tabs"
+    timestamp: Date;
+    snapshot: TabLayoutSnapshot;
+}
+
+/**
+ * Represents a saved tab workspace with its editor layout and open file paths per group
  */
 export interface TabWorkspace {
     name: string;
-    tabs: string[]; // Array of file paths (URI strings)
+    scope?: string; // Identity of the folder or multi-root workspace it belongs to, 'global' if shared; unset for legacy workspaces
+    branch?: string; // Git branch the workspace was saved for automatically (branch workspaces)
+    groups: TabWorkspaceGroup[];
+    layout?: EditorGroupLayout; // Split layout of the editor area when the workspace was saved
     createdAt: Date;
     lastModified: Date;
 }
 
+/**
+ * A tab workspace as written to a shared `.cleanx/workspaces.json` file (dates as ISO strings)
+ */
+export type SharedTabWorkspace = Omit<TabWorkspace, 'scope' | 'createdAt' | 'lastModified'> & {
+    createdAt?: string;
+    lastModified?: string;
+};
+
+/**
+ * Contents of a shared `.cleanx/workspaces.json` file
+ */
+export interface SharedTabWorkspaceFile {
+    version: number;
+    workspaces: SharedTabWorkspace[];
+}
+
 /**
  * Extension state for managing tab workspaces
  */
 export interface TabWorkspaceState {
     workspaces: TabWorkspace[];
     currentWorkspace?: string; // Name of the currently active workspace
+    currentWorkspaceScope?: string; // Scope of the currently active workspace
     previousWorkspace?: TabWorkspace; // Auto-saved workspace before loading new one
 }
 
@@ -58,6 +413,7 @@ export interface TabInfo {
     viewType?: string;
     isActive: boolean;
     isPinned: boolean;
+    isPreview: boolean;
     label: string;
     viewColumn: vscode.ViewColumn;
 }
\ No newline at end of file
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { ExtensionConfig } from '../types';
+import { ExtensionConfig, TabCloseRule } from '../types';
 
 /**
  * Manages extension configuration settings
@@ -7,6 +7,15 @@ import { ExtensionConfig } from '../types';
 export class ConfigurationManager {
     private static readonly EXTENSION_NAME = 'cleanx';
 
+    /**
+     * Close rules of Close Git Diff Editors, also the default rules of Clean Tabs
+     */
+    public static readonly GIT_CLEAN_RULES: TabCloseRule[] = [
+        { name: 'Git editor', action: 'include', gitEditor: true },
+        { name: '.git/ file', action: 'include', scheme: 'file', inputType: 'text', glob: '{**/.git,**/.git/**}' },
+        { name: 'Gitignored file', action: 'include', scheme: 'file', inputType: 'text', gitignored: true }
+    ];
+
     /**
      * Get the current extension configuration
      */
@@ -18,6 +27,22 @@ export class ConfigurationManager {
             confirmBeforeClosing: config.get('confirmBeforeClosing', false),
             sortAfterClosing: config.get('sortAfterClosing', false),
             customFileTypeOrder: config.get('customFileTypeOrder', []),
+            sortKeys: config.get('sortKeys', ['rule', 'extension', 'name']),
+            sortRules: config.get('sortRules', []),
+            stemSuffixes: config.get('stemSuffixes', ['test', 'spec', 'stories', 'module']),
+            stemRoles: config.get('stemRoles', ['main', 'module', 'stories', 'test', 'spec']),
+            sortPresets: config.get('sortPresets', []),
+            consolidateGroupsWhenSorting: config.get('consolidateGroupsWhenSorting', false),
+            keepTabsSorted: config.get('keepTabsSorted', false),
+            defaultWorkspaceScope: config.get('defaultWorkspaceScope', 'workspace'),
+            autoUpdateWorkspace: config.get('autoUpdateWorkspace', false),
+            unsavedTabsAction: config.get('unsavedTabsAction', 'ask'),
+            undoHistorySize: config.get('undoHistorySize', 10),
+            cleanRules: config.get('cleanRules', this.GIT_CLEAN_RULES),
+            keepPinnedUnmodifiedFiles: config.get('keepPinnedUnmodifiedFiles', true),
+            keepDirtyUnmodifiedFiles: config.get('keepDirtyUnmodifiedFiles', true),
+            autoCloseMissingFileTabs: config.get('autoCloseMissingFileTabs', false),
+            branchWorkspaces: config.get('branchWorkspaces', false),
         };
     }
 
@@ -0,0 +1,238 @@
+/**
+ * A single pattern from an ignore file
+ */
+export interface GitignoreRule {
+    pattern: string;        // The line as written, for logging
+    base: string;           // Directory of the ignore file relative to the repository root ('' for the root)
+    negate: boolean;        // `!pattern` re-includes matching paths
+    directoryOnly: boolean; // `pattern/` only matches directories
+    anchored: boolean;      // Patterns with a slash match the path relative to `base`, others match the file name
+    regex: RegExp;
+}
+
+/**
+ * Matches paths against ignore patterns following the gitignore specification
+ * (https://git-scm.com/docs/gitignore). Rules are given from lowest to highest
+ * precedence: `core.excludesFile`, `.git/info/exclude`, then `.gitignore` files
+ * from the repository root down to the directory of the path.
+ */
+export class GitignoreMatcher {
+
+    constructor(private readonly rules: GitignoreRule[]) {}
+
+    /**
+     * Parse the content of an ignore file
+     * @param content The file content
+     * @param base Directory of the file relative to the repository root, using forward slashes ('' for the root)
+     */
+    public static parse(content: string, base: string = ''): GitignoreRule[] {
+        return content.split(/\r?\n/)
+            .map(line => GitignoreMatcher.parseLine(line, base))
+            .filter((rule): rule is GitignoreRule => rule !== undefined);
+    }
+
+    /**
+     * Parse one line of an ignore file
+     * @returns The rule, or undefined for blank lines and comments
+     */
+    public static parseLine(line: string, base: string = ''): GitignoreRule | undefined {
+        // Trailing spaces are ignored unless escaped with a backslash
+        let pattern = line.replace(/(?<!\\) +$/, '');
+        if (pattern === '' || pattern.startsWith('#')) {
+            return undefined;
+        }
+
+        const negate = pattern.startsWith('!');
+        if (negate) {
+            pattern = pattern.slice(1);
+        }
+
+        const directoryOnly = pattern.endsWith('/');
+        if (directoryOnly) {
+            pattern = pattern.slice(0, -1);
+        }
+
+        // A slash at the beginning or in the middle anchors the pattern to the ignore file's directory
+        const anchored = pattern.includes('/');
+        if (pattern.startsWith('/')) {
+            pattern = pattern.slice(1);
+        }
+        if (pattern === '') {
+            return undefined;
+        }
+
+        return { pattern: line.trim(), base, negate, directoryOnly, anchored, regex: GitignoreMatcher.toRegExp(pattern) };
+    }
+
+    /**
+     * Convert a gitignore pattern (without `!`, leading and trailing slash) to an anchored regular expression.
+     * `*` and `?` don't match slashes, `**` matches across directories only as a whole path segment.
+     */
+    public static toRegExp(pattern: string): RegExp {
+        let source = '';
+
+        for (let i = 0; i < pattern.length; i++) {
+            const char = pattern[i];
+            switch (char) {
+                case '*': {
+                    let end = i;
+                    while (pattern[end + 1] === '*') {
+                        end++;
+                    }
+                    const atSegmentStart = i === 0 || pattern[i - 1] === '/';
+                    const atSegmentEnd = end === pattern.length - 1 || pattern[end + 1] === '/';
+
+                    if (end > i && atSegmentStart && atSegmentEnd) {
+                        if (end === pattern.length - 1) {
+                            source += '.*'; // `dir/**` matches everything inside
+                        } else {
+                            source += '(?:.*/)?'; // `**/` matches zero or more directories
+                            end++;
+                        }
+                    } else {
+                        source += '[^/]*'; // Other consecutive asterisks are regular asterisks
+                    }
+                    i = end;
+                    break;
+                }
+                case '?':
+                    source += '[^/]';
+                    break;
+                case '[': {
+                    const charClass = GitignoreMatcher.parseCharClass(pattern, i);
+                    if (!charClass) {
+                        return /(?!)/; // Like Git, a pattern with an unclosed bracket matches nothing
+                    }
+                    source += charClass.source;
+                    i = charClass.end;
+                    break;
+                }
+                case '\\':
+                    // A backslash escapes the next character; a trailing one matches nothing
+                    if (i + 1 < pattern.length) {
+                        i++;
+                        source += GitignoreMatcher.escape(pattern[i]);
+                    } else {
+                        source += '(?!)';
+                    }
+                    break;
+                default:
+                    source += GitignoreMatcher.escape(char);
+                    break;
+            }
+        }
+
+        return new RegExp(`^${source}$`);
+    }
+
+    /**
+     * Check whether a path is ignored. A path inside an ignored directory is ignored
+     * even if a later pattern re-includes it, like in Git.
+     * @param relativePath Path relative to the repository root, using forward slashes
+     * @param isDirectory Whether the path is a directory (for patterns ending with a slash)
+     */
+    public isIgnored(relativePath: string, isDirectory: boolean = false): boolean {
+        const parts = relativePath.split('/').filter(part => part !== '');
+
+        for (let i = 1; i < parts.length; i++) {
+            if (this.matches(parts.slice(0, i).join('/'), true)) {
+                return true;
+            }
+        }
+
+        return this.matches(parts.join('/'), isDirectory);
+    }
+
+    /**
+     * Find the rule that decides whether a path is ignored, not looking at parent directories
+     * @returns The last matching rule, or undefined if no rule matches
+     */
+    public findMatchingRule(relativePath: string, isDirectory: boolean = false): GitignoreRule | undefined {
+        for (let i = this.rules.length - 1; i >= 0; i--) {
+            const rule = this.rules[i];
+            if (rule.directoryOnly && !isDirectory) {
+                continue;
+            }
+
+            if (rule.base !== '' && !relativePath.startsWith(`${rule.base}/`)) {
+                continue;
+            }
+            const subject = rule.base === '' ? relativePath : relativePath.slice(rule.base.length + 1);
+
+            if (rule.regex.test(rule.anchored ? subject : subject.slice(subject.lastIndexOf('/') + 1))) {
+                return rule;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Check a path against the rules, the last matching rule wins
+     */
+    private matches(relativePath: string, isDirectory: boolean): boolean {
+        const rule = this.findMatchingRule(relativePath, isDirectory);
+        return rule !== undefined && !rule.negate;
+    }
+
+    /**
+     * Parse a bracket expression such as `[a-z]`, `[!0-9]` or `[[:alpha:]_]`
+     * @returns The regular expression source and the index of the closing bracket, or undefined if it isn't closed
+     */
+    private static parseCharClass(pattern: string, start: number): { source: string, end: number } | undefined {
+        const posixClasses: Record<string, string> = {
+            alnum: 'a-zA-Z0-9', alpha: 'a-zA-Z', blank: ' \\t', cntrl: '\\x00-\\x1f\\x7f',
+            digit: '0-9', graph: '\\x21-\\x7e', lower: 'a-z', print: '\\x20-\\x7e',
+            punct: '!-\\/:-@\\[-`{-~', space: ' \\t\\n\\r\\f\\v', upper: 'A-Z', xdigit: '0-9A-Fa-f'
+        };
+
+        let i = start + 1;
+        const negate = pattern[i] === '!' || pattern[i] === '^';
+        if (negate) {
+            i++;
+        }
+
+        let content = '';
+        for (let first = true; i < pattern.length; i++, first = false) {
+            const char = pattern[i];
+            if (char === ']' && !first) {
+                // Bracket expressions never match a slash
+                return { source: `(?!/)[${negate ? '^' : ''}${content}]`, end: i };
+            }
+
+            if (char === '[' && pattern[i + 1] === ':') {
+                const close = pattern.indexOf(':]', i + 2);
+                const name = close === -1 ? undefined : pattern.slice(i + 2, close);
+                if (name !== undefined && name in posixClasses) {
+                    content += posixClasses[name];
+                    i = close + 1;
+                    continue;
+                }
+            }
+
+            if (char === '\\' && i + 1 < pattern.length) {
+                i++;
+                content += GitignoreMatcher.escapeInClass(pattern[i]);
+            } else if (char === '-' && !first && pattern[i + 1] !== ']') {
+                content += '-';
+            } else {
+                content += GitignoreMatcher.escapeInClass(char);
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Escape a character for use outside a character class
+     */
+    private static escape(char: string): string {
+        return char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }
+
+    /**
+     * Escape a character for use inside a character class
+     */
+    private static escapeInClass(char: string): string {
+        return char.replace(/[\]\\^-]/g, '\\$&');
+    }
+}
@@ -0,0 +1,121 @@
+/**
+ * Glob matching for user-configured file patterns
+ */
+export class GlobMatcher {
+
+    /**
+     * Check whether a path matches a glob pattern. Patterns without a slash are
+     * matched against the file name only, like in `.gitignore`.
+     * @param glob Pattern such as `package.json`, `*.test.ts` or `src/**\/*.{ts,tsx}`
+     * @param filePath Path relative to the workspace folder, using forward slashes
+     */
+    public static matches(glob: string, filePath: string): boolean {
+        const subject = glob.includes('/') ? filePath : filePath.slice(filePath.lastIndexOf('/') + 1);
+        return GlobMatcher.toRegExp(glob.replace(/^\//, '')).test(subject);
+    }
+
+    /**
+     * Convert a glob pattern to an anchored regular expression.
+     * Supports `**`, `*`, `?`, character classes (`[a-z]`, `[!a-z]`) and alternatives (`{a,b}`).
+     */
+    public static toRegExp(glob: string): RegExp {
+        let source = '';
+        let braceDepth = 0;
+
+        for (let i = 0; i < glob.length; i++) {
+            const char = glob[i];
+            switch (char) {
+                case '*':
+                    if (glob[i + 1] === '*') {
+                        while (glob[i + 1] === '*') {
+                            i++;
+                        }
+                        // `**/` also matches no directory at all
+                        if (glob[i + 1] === '/') {
+                            i++;
+                            source += '(?:.*/)?';
+                        } else {
+                            source += '.*';
+                        }
+                    } else {
+                        source += '[^/]*';
+                    }
+                    break;
+                case '?':
+                    source += '[^/]';
+                    break;
+                case '[': {
+                    const charClass = GlobMatcher.parseCharClass(glob, i);
+                    if (!charClass) {
+                        source += '\\[';
+                        break;
+                    }
+                    source += charClass.source;
+                    i = charClass.end;
+                    break;
+                }
+                case '{':
+                    braceDepth++;
+                    source += '(?:';
+                    break;
+                case '}':
+                    if (braceDepth > 0) {
+                        braceDepth--;
+                        source += ')';
+                    } else {
+                        source += '\\}';
+                    }
+                    break;
+                case ',':
+                    source += braceDepth > 0 ? '|' : ',';
+                    break;
+                default:
+                    source += char.replace(/[.+^$()|\\]/g, '\\$&');
+                    break;
+            }
+        }
+
+        // Unclosed braces are treated as a group that ends with the pattern
+        return new RegExp(`^${source}${')'.repeat(braceDepth)}$`);
+    }
+
+    /**
+     * Parse a character class such as `[a-z]`, `[!0-9]` or `[]^\\]`. A `]` right after the opening
+     * bracket is part of the class, and a backslash escapes the next character.
+     * @returns The regular expression source and the index of the closing bracket, or undefined if it isn't closed
+     */
+    private static parseCharClass(glob: string, start: number): { source: string, end: number } | undefined {
+        let i = start + 1;
+        const negate = glob[i] === '!' || glob[i] === '^';
+        if (negate) {
+            i++;
+        }
+
+        let content = '';
+        for (let first = true; i < glob.length; i++, first = false) {
+            const char = glob[i];
+            if (char === ']' && !first) {
+                // Character classes never match a slash
+                return { source: `(?!/)[${negate ? '^' : ''}${content}]`, end: i };
+            }
+
+            if (char === '\\' && i + 1 < glob.length) {
+                i++;
+                content += GlobMatcher.escapeInClass(glob[i]);
+            } else if (char === '-' && !first && glob[i + 1] !== ']') {
+                content += '-';
+            } else {
+                content += GlobMatcher.escapeInClass(char);
+            }
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Escape a character for use inside a character class
+     */
+    private static escapeInClass(char: string): string {
+        return char.replace(/[\]\\^-]/g, '\\$&');
+    }
+}
@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+
+/**
+ * Helpers for waiting on tab changes instead of sleeping for a fixed time
+ */
+export class TabEvents {
+    private static readonly DEFAULT_TIMEOUT = 1000;
+    private static readonly OWN_CHANGE_GRACE = 250; // Tab events can arrive shortly after the operation finished
+    private static ownChangeDepth = 0;
+    private static ownChangeEnd = 0;
+
+    /**
+     * Run an operation that changes tabs, marking the tab events it raises as caused by CleanX
+     */
+    public static async runOwnChange<T>(operation: () => Promise<T>): Promise<T> {
+        TabEvents.ownChangeDepth++;
+        try {
+            return await operation();
+        } finally {
+            TabEvents.ownChangeDepth--;
+            TabEvents.ownChangeEnd = Date.now();
+        }
+    }
+
+    /**
+     * Check whether current tab events are caused by a CleanX operation rather than the user
+     */
+    public static isOwnChange(): boolean {
+        return TabEvents.ownChangeDepth > 0 || Date.now() - TabEvents.ownChangeEnd < TabEvents.OWN_CHANGE_GRACE;
+    }
+
+    /**
+     * Wait until a condition on the open tabs holds, re-checking whenever tabs or tab groups change
+     * @param condition Condition to wait for
+     * @param timeout Maximum time to wait in milliseconds
+     * @returns True if the condition holds, false if the timeout elapsed first
+     */
+    public static waitFor(condition: () => boolean, timeout: number = TabEvents.DEFAULT_TIMEOUT): Promise<boolean> {
+        if (condition()) {
+            return Promise.resolve(true);
+        }
+
+        return new Promise(resolve => {
+            const finish = (result: boolean) => {
+                clearTimeout(timer);
+                listeners.forEach(listener => listener.dispose());
+                resolve(result);
+            };
+            const check = () => {
+                if (condition()) {
+                    finish(true);
+                }
+            };
+
+            const listeners = [
+                vscode.window.tabGroups.onDidChangeTabs(check),
+                vscode.window.tabGroups.onDidChangeTabGroups(check)
+            ];
+            const timer = setTimeout(() => finish(condition()), timeout);
+        });
+    }
+}